@@ -0,0 +1,259 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Target, Save, SkipForward, Square } from 'lucide-react';
+import DrawingCanvas from '@/components/DrawingCanvas';
+import {
+  ocrPaths,
+  calibrationResponseSchema,
+  type CalibrationPrompt,
+  type CalibrationResponse
+} from '@shared/ocr';
+import type { StrokePoint } from '@shared/schema';
+import { ocrRequest, uploadTrainingImage } from '@/lib/ocrApi';
+import { CanvasLayers, exportLayers } from '@/lib/layers';
+
+interface CalibrationSessionProps {
+  // Called after each capture is stored, e.g. to refresh the gallery
+  onSampleCaptured?: () => void;
+}
+
+/**
+ * The captures still needed, in rounds: every prompt once before any prompt
+ * twice, so repetitions of the same character aren't written back to back
+ */
+function buildQueue(plan: CalibrationResponse, confusionsOnly: boolean): CalibrationPrompt[] {
+  const prompts = plan.prompts.filter(prompt => !confusionsOnly || prompt.confusableWith.length > 0);
+  const queue: CalibrationPrompt[] = [];
+  for (let round = 0; round < plan.repetitions; round++) {
+    queue.push(...prompts.filter(prompt => prompt.captured <= round));
+  }
+  return queue;
+}
+
+// Shade a character's coverage cell by how close it is to the target
+function coverageVariant(samples: number, target: number): 'default' | 'secondary' | 'outline' {
+  if (samples >= target) return 'default';
+  return samples > 0 ? 'secondary' : 'outline';
+}
+
+const showText = (text: string) => (text === ' ' ? 'space' : text);
+
+/**
+ * Guided calibration: prompts the user through every character and the
+ * commonly confused letters and words, labelling each capture automatically
+ */
+const CalibrationSession = ({ onSampleCaptured }: CalibrationSessionProps) => {
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<CalibrationResponse | null>(null);
+  const [queue, setQueue] = useState<CalibrationPrompt[]>([]);
+  const [position, setPosition] = useState(0);
+  const [isActive, setIsActive] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confusionsOnly, setConfusionsOnly] = useState(false);
+  const layersRef = useRef<CanvasLayers | null>(null);
+  const strokesRef = useRef<StrokePoint[]>([]);
+
+  const fetchPlan = async () => {
+    try {
+      setPlan(await ocrRequest('GET', ocrPaths.calibration, calibrationResponseSchema));
+    } catch (error) {
+      console.error('Error fetching calibration coverage:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load calibration coverage',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchPlan();
+  }, []);
+
+  const current = isActive ? queue[position] : undefined;
+
+  const handleStart = () => {
+    if (!plan) return;
+    const captures = buildQueue(plan, confusionsOnly);
+    if (captures.length === 0) {
+      toast({
+        title: 'Calibration complete',
+        description: 'Every prompt already has enough samples'
+      });
+      return;
+    }
+    setQueue(captures);
+    setPosition(0);
+    setIsActive(true);
+  };
+
+  const handleStop = () => {
+    setIsActive(false);
+    fetchPlan();
+  };
+
+  const handleNext = () => {
+    if (position + 1 < queue.length) {
+      setPosition(position + 1);
+      strokesRef.current = [];
+    } else {
+      toast({
+        title: 'Calibration complete',
+        description: 'Train the model to use your new samples'
+      });
+      handleStop();
+    }
+  };
+
+  // Store the drawing labelled with the prompt and move on
+  const handleSave = async () => {
+    if (!current || !layersRef.current) return;
+    if (strokesRef.current.length === 0) {
+      toast({
+        title: 'Nothing written',
+        description: `Write "${showText(current.text)}" on the canvas first`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Training samples are the ink alone on white, without page lines
+      const canvasData = exportLayers(layersRef.current, { includeBackground: false });
+      const blob = await (await fetch(canvasData)).blob();
+      await uploadTrainingImage(blob, current.text, {
+        filename: 'calibration.png',
+        source: 'drawn',
+        strokes: strokesRef.current
+      });
+
+      onSampleCaptured?.();
+      handleNext();
+    } catch (error) {
+      console.error('Error saving calibration sample:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save calibration sample',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalCaptures = plan ? plan.prompts.length * plan.repetitions : 0;
+  const doneCaptures = plan ? totalCaptures - plan.remaining : 0;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Target className="mr-2 h-5 w-5" />
+          Guided Calibration
+        </CardTitle>
+        <CardDescription>
+          Write each prompted character and word a few times. Captures are labelled for you.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {current ? (
+          <>
+            <div className="flex items-end justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Write</p>
+                <p className="text-5xl font-semibold leading-tight">{showText(current.text)}</p>
+                {current.confusableWith.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Often mixed up with {current.confusableWith.join(', ')}
+                  </p>
+                )}
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {position + 1} of {queue.length}
+              </span>
+            </div>
+
+            <Progress value={(position / queue.length) * 100} />
+
+            <div className="border rounded-lg p-4 bg-slate-50">
+              {/* A fresh canvas for every capture */}
+              <DrawingCanvas
+                key={position}
+                onCanvasReady={(_canvas, layers) => { layersRef.current = layers; }}
+                onStrokeDataChange={strokes => { strokesRef.current = strokes; }}
+                mode="training"
+              />
+            </div>
+          </>
+        ) : plan && (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Calibration progress</span>
+                <span className="text-muted-foreground">{doneCaptures} of {totalCaptures} captures</span>
+              </div>
+              <Progress value={totalCaptures > 0 ? (doneCaptures / totalCaptures) * 100 : 0} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Character coverage</Label>
+              <div className="flex flex-wrap gap-1 max-h-[160px] overflow-y-auto">
+                {plan.characters.map(({ char, samples }) => (
+                  <Badge
+                    key={char}
+                    variant={coverageVariant(samples, plan.repetitions)}
+                    className="font-mono"
+                    title={`${samples} samples`}
+                  >
+                    {char} {samples}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="confusions-only" checked={confusionsOnly} onCheckedChange={setConfusionsOnly} />
+              <Label htmlFor="confusions-only">Only confusable letters and words</Label>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-between">
+        {current ? (
+          <>
+            <Button variant="ghost" onClick={handleStop} disabled={isSaving}>
+              <Square className="mr-2 h-4 w-4" />
+              Stop
+            </Button>
+            <div className="space-x-2">
+              <Button variant="outline" onClick={handleNext} disabled={isSaving}>
+                <SkipForward className="mr-2 h-4 w-4" />
+                Skip
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                <Save className="mr-2 h-4 w-4" />
+                {isSaving ? 'Saving...' : 'Save & Next'}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button className="w-full" onClick={handleStart} disabled={!plan}>
+            <Target className="mr-2 h-4 w-4" />
+            {plan && plan.remaining < totalCaptures ? 'Continue Calibration' : 'Start Calibration'}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default CalibrationSession;
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Check, X, RefreshCw } from 'lucide-react';
+import {
+  ocrPaths,
+  trainingImagesResponseSchema,
+  reviewTrainingImageResponseSchema,
+  type TrainingImage
+} from '@shared/ocr';
+import { ocrRequest } from '@/lib/ocrApi';
+
+interface CorrectionReviewProps {
+  // The queue is reloaded whenever this changes
+  refreshKey?: unknown;
+  onReviewed?: () => void;
+}
+
+/**
+ * Words the user corrected in their notes, waiting to be accepted as training
+ * samples (possibly with a fixed label) or rejected
+ */
+const CorrectionReview = ({ refreshKey, onReviewed }: CorrectionReviewProps) => {
+  const { toast } = useToast();
+  const [corrections, setCorrections] = useState<TrainingImage[]>([]);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const fetchCorrections = async () => {
+    setIsLoading(true);
+    try {
+      const { trainingImages } = await ocrRequest('GET', ocrPaths.trainingImages, trainingImagesResponseSchema, {
+        query: { status: 'pending' }
+      });
+      setCorrections(trainingImages);
+    } catch (error) {
+      console.error('Error fetching corrections:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load corrections to review',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCorrections();
+  }, [refreshKey]);
+
+  const handleReview = async (correction: TrainingImage, accept: boolean) => {
+    setReviewingId(correction.id);
+    try {
+      const label = (labels[correction.id] ?? correction.label).trim();
+      const { message } = await ocrRequest('POST', ocrPaths.reviewTrainingImage, reviewTrainingImageResponseSchema, {
+        id: correction.id,
+        body: accept ? { accept, label: label || undefined } : { accept }
+      });
+
+      setCorrections(prev => prev.filter(c => c.id !== correction.id));
+      toast({ title: accept ? 'Correction accepted' : 'Correction rejected', description: message });
+      onReviewed?.();
+    } catch (error) {
+      console.error('Error reviewing correction:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to review correction',
+        variant: 'destructive'
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (corrections.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Corrections to Review</CardTitle>
+          <CardDescription>
+            Words you fixed in your notes. Accepted ones are used in the next training run.
+          </CardDescription>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={fetchCorrections} disabled={isLoading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-3 max-h-[360px] overflow-y-auto p-1">
+          {corrections.map(correction => (
+            <div key={correction.id} className="flex items-center gap-3 border rounded-lg p-2">
+              <div className="h-16 w-32 shrink-0 bg-slate-100 flex items-center justify-center">
+                <img
+                  src={correction.path}
+                  alt={correction.label}
+                  className="max-h-full max-w-full object-contain"
+                />
+              </div>
+
+              <div className="flex-1 space-y-1">
+                {correction.recognizedAs && (
+                  <p className="text-xs text-muted-foreground">
+                    Read as "{correction.recognizedAs}"
+                  </p>
+                )}
+                <Input
+                  value={labels[correction.id] ?? correction.label}
+                  onChange={(e) => setLabels(prev => ({ ...prev, [correction.id]: e.target.value }))}
+                  aria-label="Correct label"
+                />
+              </div>
+
+              <div className="flex gap-1">
+                <Button
+                  size="icon"
+                  onClick={() => handleReview(correction, true)}
+                  disabled={reviewingId === correction.id}
+                  title="Accept"
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => handleReview(correction, false)}
+                  disabled={reviewingId === correction.id}
+                  title="Reject"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CorrectionReview;
@@ -6,36 +6,42 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Label } from './ui/label';
 import { Separator } from './ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import {
+  ocrPaths,
+  messageResponseSchema,
+  modelInfoResponseSchema,
+  initializeModelResponseSchema,
+  trainingImagesResponseSchema,
+  trainingJobResponseSchema,
+  recognitionResponseSchema,
+  type Candidate,
+  type ModelInfo,
+  type RecognizedLine,
+  type TrainingImage
+} from '@shared/ocr';
+import { ocrRequest, uploadTrainingImage } from '@/lib/ocrApi';
+import { watchTrainingJob } from '@/lib/trainingJobs';
+import { CanvasLayers, exportLayers } from '@/lib/layers';
 import { Upload, Database, Brain, Trash2, RefreshCw } from 'lucide-react';
 
 interface CustomOcrTrainerProps {
-  canvasElement: HTMLCanvasElement | null;
+  canvasLayers: CanvasLayers | null;
 }
 
-interface TrainingImage {
-  id: string;
-  label: string;
-  filename: string;
-  path: string;
-}
+// Characters the model is less sure of than this are highlighted for checking
+const LOW_CONFIDENCE = 0.6;
 
-interface ModelInfo {
-  exists: boolean;
-  modelType: string;
-  inputShape: number[];
-  outputShape: number[];
-  numClasses: number;
-  charSet: string;
-}
+const formatCandidates = (candidates: Candidate[]) =>
+  candidates.map(c => `${c.text} (${Math.round(c.probability * 100)}%)`).join(', ');
 
-const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) => {
+const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasLayers }) => {
   const [trainingImages, setTrainingImages] = useState<TrainingImage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isTraining, setIsTraining] = useState(false);
   const [currentLabel, setCurrentLabel] = useState('');
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [recognizedText, setRecognizedText] = useState('');
+  const [recognizedLines, setRecognizedLines] = useState<RecognizedLine[]>([]);
   const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
   const [activeTab, setActiveTab] = useState('upload');
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -45,11 +51,13 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
   const fetchTrainingData = async () => {
     setIsLoading(true);
     try {
-      const response = await apiRequest('GET', '/api/ocr/training-images');
-      setTrainingImages(response.trainingImages || []);
+      const { trainingImages } = await ocrRequest('GET', ocrPaths.trainingImages, trainingImagesResponseSchema, {
+        query: { status: 'accepted' }
+      });
+      setTrainingImages(trainingImages);
       
-      const modelInfoResponse = await apiRequest('GET', '/api/ocr/status');
-      setModelInfo(modelInfoResponse.modelInfo);
+      const { modelInfo } = await ocrRequest('GET', ocrPaths.modelInfo, modelInfoResponseSchema);
+      setModelInfo(modelInfo);
     } catch (error) {
       console.error('Error fetching training data:', error);
       toast({
@@ -68,7 +76,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
 
   // Handle canvas capture for training
   const handleCaptureCanvas = async () => {
-    if (!canvasElement || !currentLabel.trim()) {
+    if (!canvasLayers || !currentLabel.trim()) {
       toast({
         title: 'Invalid input',
         description: 'Please draw something and provide a label',
@@ -80,30 +88,12 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
     setIsLoading(true);
     try {
       // Convert canvas to data URL
-      const canvasData = canvasElement.toDataURL('image/png');
+      const canvasData = exportLayers(canvasLayers, { includeBackground: false });
       
-      // Create form data
-      const formData = new FormData();
-      
-      // Convert data URL to blob
+      // Convert data URL to blob and send it to the server
       const response = await fetch(canvasData);
       const blob = await response.blob();
-      
-      // Append to form data
-      formData.append('image', blob, 'canvas_drawing.png');
-      formData.append('label', currentLabel);
-      
-      // Send to server
-      const uploadResponse = await fetch('/api/ocr/upload-training', {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload canvas data');
-      }
-      
-      const result = await uploadResponse.json();
+      await uploadTrainingImage(blob, currentLabel, { filename: 'canvas_drawing.png', source: 'drawn' });
       
       toast({
         title: 'Success',
@@ -142,20 +132,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
 
     setIsLoading(true);
     try {
-      const formData = new FormData();
-      formData.append('image', files[0]);
-      formData.append('label', currentLabel);
-      
-      const uploadResponse = await fetch('/api/ocr/upload-training', {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload image');
-      }
-      
-      const result = await uploadResponse.json();
+      await uploadTrainingImage(files[0], currentLabel);
       
       toast({
         title: 'Success',
@@ -196,19 +173,24 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
 
     setIsTraining(true);
     try {
-      const response = await apiRequest('POST', '/api/ocr/train', {
-        imageId: selectedImageId,
-        label: currentLabel
+      const { job } = await ocrRequest('POST', ocrPaths.train, trainingJobResponseSchema, {
+        body: { imageId: selectedImageId, label: currentLabel }
       });
       
+      // Training runs in the background, wait for it to finish
+      const finished = await watchTrainingJob(job.id, () => {});
+      if (finished.status !== 'completed') {
+        throw new Error(finished.error || 'Training was cancelled');
+      }
+      
       toast({
         title: 'Success',
         description: 'Model trained successfully',
       });
       
       // Refresh model info
-      const modelInfoResponse = await apiRequest('GET', '/api/ocr/status');
-      setModelInfo(modelInfoResponse.modelInfo);
+      const { modelInfo } = await ocrRequest('GET', ocrPaths.modelInfo, modelInfoResponseSchema);
+      setModelInfo(modelInfo);
       
       // Clear selection and label
       setSelectedImageId(null);
@@ -228,7 +210,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
 
   // Handle recognizing text from canvas
   const handleRecognizeText = async () => {
-    if (!canvasElement) {
+    if (!canvasLayers) {
       toast({
         title: 'Invalid input',
         description: 'Please draw something first',
@@ -239,13 +221,14 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
 
     setIsLoading(true);
     try {
-      const canvasData = canvasElement.toDataURL('image/png');
+      const canvasData = exportLayers(canvasLayers, { includeBackground: false });
       
-      const response = await apiRequest('POST', '/api/ocr/recognize', {
-        canvasData
+      const result = await ocrRequest('POST', ocrPaths.recognize, recognitionResponseSchema, {
+        body: { canvasData }
       });
       
-      setRecognizedText(response.text || 'No text recognized');
+      setRecognizedText(result.text || 'No text recognized');
+      setRecognizedLines(result.lines);
       
     } catch (error) {
       console.error('Error recognizing text:', error);
@@ -255,6 +238,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
         variant: 'destructive'
       });
       setRecognizedText('Error recognizing text');
+      setRecognizedLines([]);
     } finally {
       setIsLoading(false);
     }
@@ -263,7 +247,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
   // Handle deleting a training image
   const handleDeleteImage = async (imageId: string) => {
     try {
-      await apiRequest('DELETE', `/api/ocr/training-image/${imageId}`);
+      await ocrRequest('DELETE', ocrPaths.trainingImage, messageResponseSchema, { id: imageId });
       
       toast({
         title: 'Success',
@@ -287,9 +271,9 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
   const handleInitializeModel = async () => {
     setIsLoading(true);
     try {
-      const response = await apiRequest('POST', '/api/ocr/initialize');
+      const { modelInfo } = await ocrRequest('POST', ocrPaths.initialize, initializeModelResponseSchema);
       
-      setModelInfo(response.modelInfo);
+      setModelInfo(modelInfo);
       
       toast({
         title: 'Success',
@@ -339,7 +323,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
             
             <div className="flex flex-col gap-4">
               <Button 
-                disabled={isLoading || !canvasElement} 
+                disabled={isLoading || !canvasLayers} 
                 onClick={handleCaptureCanvas}
               >
                 <Upload className="mr-2 h-4 w-4" />
@@ -452,7 +436,7 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
           <TabsContent value="test" className="space-y-4">
             <Button 
               className="w-full" 
-              disabled={isLoading || !canvasElement} 
+              disabled={isLoading || !canvasLayers} 
               onClick={handleRecognizeText}
             >
               Recognize Text from Current Canvas
@@ -460,7 +444,43 @@ const CustomOcrTrainer: React.FC<CustomOcrTrainerProps> = ({ canvasElement }) =>
             
             <div className="border rounded-md p-4 min-h-[100px] bg-muted/30">
               <h3 className="text-sm font-medium mb-2">Recognized Text:</h3>
-              <p className="text-lg">{recognizedText || 'Draw something and click recognize'}</p>
+              {recognizedLines.length > 0 ? (
+                <>
+                  {recognizedLines.map((line, lineIndex) => (
+                    <p key={lineIndex} className="text-lg">
+                      {line.words.map((word, wordIndex) => (
+                        <span
+                          key={wordIndex}
+                          className="mr-2"
+                          title={`Could also be: ${formatCandidates(word.candidates.slice(1))}`}
+                        >
+                          {word.characters.map((character, charIndex) => (
+                            <span
+                              key={charIndex}
+                              className={character.confidence < LOW_CONFIDENCE
+                                ? 'bg-amber-200 rounded underline decoration-dotted'
+                                : ''}
+                              title={formatCandidates(character.candidates)}
+                            >
+                              {character.char}
+                            </span>
+                          ))}
+                        </span>
+                      ))}
+                    </p>
+                  ))}
+                  
+                  {recognizedLines.some(line =>
+                    line.words.some(word => word.characters.some(c => c.confidence < LOW_CONFIDENCE))
+                  ) && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Highlighted letters might be wrong. Hover over them to see other likely letters.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-lg">{recognizedText || 'Draw something and click recognize'}</p>
+              )}
             </div>
             
             {modelInfo && (
@@ -2,25 +2,99 @@ import { useRef, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import ColorPicker from './ColorPicker';
 import PenSizePicker from './PenSizePicker';
-import { HistoryItem, createEmptyImageData } from '@/lib/utils';
+import { StrokePoint, createStrokeId, renderStrokes } from '@/lib/strokes';
+import { recognizeShape, shapeToStroke } from '@/lib/shapeRecognition';
+import {
+  CanvasObject,
+  ObjectHandle,
+  ShapeObject,
+  ShapeType,
+  TextObject,
+  TextStyle,
+  TEXT_FONT_FAMILY,
+  createShapeObject,
+  createTextObject,
+  measureTextObject,
+  findObjectAt,
+  findHandleAt,
+  moveObject,
+  resizeObject,
+  renderObjects,
+  drawObjectSelection
+} from '@/lib/canvasObjects';
+import ShapePalette from './ShapePalette';
+import TextOptions from './TextOptions';
+import SelectionToolbar from './SelectionToolbar';
+import EraserOptions from './EraserOptions';
+import { EraserMode, eraseAt, diffStrokes } from '@/lib/eraser';
+import type { CanvasLayers } from '@/lib/layers';
+import {
+  SelectionHandles,
+  selectStrokesInLasso,
+  selectStrokesInRect,
+  rectFromPoints,
+  getSelectedPoints,
+  getSelectionHandles,
+  translatePoints,
+  scalePoints,
+  rotatePoints,
+  recolorPoints,
+  duplicatePoints,
+  drawSelectionBounds,
+  drawLasso
+} from '@/lib/selection';
+import {
+  Viewport,
+  Rect,
+  DEFAULT_VIEWPORT,
+  screenToWorld,
+  worldToScreen,
+  applyViewportTransform,
+  zoomAt,
+  panBy,
+  getVisibleRect,
+  getStrokesBounds,
+  fitToRect
+} from '@/lib/viewport';
+import {
+  StrokeHistory,
+  HistoryCommand,
+  createHistory,
+  getHistoryStrokes,
+  getHistoryObjects,
+  pushCommand,
+  undo,
+  redo,
+  canUndo,
+  canRedo
+} from '@/lib/history';
 import { 
-  Eraser, 
   Undo2, 
   Redo2, 
   Trash2, 
-  Type,
-  Shapes,
   Edit3,
-  Pen
+  Pen,
+  Hand,
+  Highlighter,
+  LassoSelect,
+  ZoomIn,
+  ZoomOut,
+  Maximize
 } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 
 interface DrawingCanvasProps {
   initialContent?: string;
+  initialStrokes?: StrokePoint[] | null;
+  initialHistory?: StrokeHistory | null;
+  initialObjects?: CanvasObject[] | null;
   onContentChange?: (content: string) => void;
   onStrokeDataChange?: (strokeData: StrokePoint[]) => void;
-  onCanvasReady?: (canvas: HTMLCanvasElement) => void;
+  onObjectsChange?: (objects: CanvasObject[]) => void;
+  onHistoryChange?: (history: StrokeHistory) => void;
+  onCanvasReady?: (canvas: HTMLCanvasElement, layers: CanvasLayers) => void;
+  onViewportChange?: (viewport: Viewport) => void;
   backgroundStyle?: 'blank' | 'lined' | 'graph';
   lineSpacing?: 'single' | 'wide' | 'college';
   enableShapeCorrection?: boolean;
@@ -34,80 +108,145 @@ interface Point {
   pressure?: number; // For pen pressure sensitivity
 }
 
-interface StrokePoint {
-  x: number;
-  y: number;
-  time: number;
-  pen_down: boolean;
-  pressure?: number;
-  stroke_id?: string;
-}
-
 interface StrokeData {
   points: StrokePoint[];
   startTime: number;
 }
 
+type CanvasTool = 'pen' | 'eraser' | 'stylus' | 'shape' | 'text' | 'select';
+
+// An in-progress drag of a canvas object
+interface ObjectDrag {
+  mode: 'create' | 'move' | 'resize';
+  origin: Point;
+  original: CanvasObject;
+  handle?: ObjectHandle;
+}
+
+// An in-progress drag with the selection tool: drawing a lasso or rectangle,
+// or moving, scaling or rotating the selected strokes
+interface SelectionDrag {
+  mode: 'lasso' | 'rect' | 'move' | 'scale' | 'rotate';
+  origin: Point;
+  path: Point[];
+  original: StrokePoint[];
+  bounds: Rect | null;
+  handle?: SelectionHandles['corners'][number];
+}
+
+// Two-finger gesture state, captured when the second finger touches down
+interface TouchGesture {
+  distance: number;
+  midpoint: { x: number; y: number };
+  viewport: Viewport;
+}
+
 const DrawingCanvas = ({ 
   initialContent,
+  initialStrokes,
+  initialHistory,
+  initialObjects,
   onContentChange,
   onStrokeDataChange,
+  onObjectsChange,
+  onHistoryChange,
   onCanvasReady,
+  onViewportChange,
   backgroundStyle = 'blank',
   lineSpacing = 'single',
   enableShapeCorrection = false,
   enableInstantCorrection = false,
   mode = 'free'
 }: DrawingCanvasProps) => {
+  // Layers from bottom to top: background, ink (which receives input), annotation, overlay
+  const backgroundCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const annotationCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [currentTool, setCurrentTool] = useState<'pen' | 'eraser' | 'stylus'>('pen');
+  const [currentTool, setCurrentTool] = useState<CanvasTool>('pen');
   const [penColor, setPenColor] = useState('#000000');
   const [penSize, setPenSize] = useState(2);
-  const [lastPosition, setLastPosition] = useState<Point>({ x: 0, y: 0 });
-  const [history, setHistory] = useState<HistoryItem[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [undoAvailable, setUndoAvailable] = useState(false);
+  const [redoAvailable, setRedoAvailable] = useState(false);
   const [isPenTabletDetected, setIsPenTabletDetected] = useState(false);
   
-  // Stroke tracking state
-  const [allStrokes, setAllStrokes] = useState<StrokePoint[]>([]);
-  const [currentStroke, setCurrentStroke] = useState<StrokePoint[]>([]);
-  const [strokeStartTime, setStrokeStartTime] = useState<number>(0);
-  const [currentStrokeId, setCurrentStrokeId] = useState<string>('');
-  
-  // State for detecting and auto-correcting shapes
-  const [currentShape, setCurrentShape] = useState<{
-    type: 'line' | 'rectangle' | 'circle' | 'none';
-    startPoint: Point | null;
-    points: Point[];
-  }>({
-    type: 'none',
-    startPoint: null,
-    points: []
-  });
+  // Stroke tracking - kept in refs because the native touch/pointer listeners
+  // are registered once and would otherwise see stale state
+  const allStrokesRef = useRef<StrokePoint[]>([]);
+  const currentStrokeRef = useRef<StrokePoint[]>([]);
+  const strokeStartTimeRef = useRef<number>(0);
+  const currentStrokeIdRef = useRef<string>('');
+  const inkTool: StrokePoint['tool'] = currentTool === 'stylus' ? 'stylus' : 'pen';
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const inkLayer: StrokePoint['layer'] = isAnnotating ? 'annotation' : 'ink';
+  const strokeStyleRef = useRef({ color: penColor, size: penSize, tool: inkTool, layer: inkLayer });
+  strokeStyleRef.current = { color: penColor, size: penSize, tool: inkTool, layer: inkLayer };
+  
+  // Vector objects drawn above the ink, and the Shapes tool state
+  const objectsRef = useRef<CanvasObject[]>([]);
+  const [shapeType, setShapeType] = useState<ShapeType>('rectangle');
+  const [shapeFilled, setShapeFilled] = useState(false);
+  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const selectedObjectIdRef = useRef<string | null>(null);
+  const objectDragRef = useRef<ObjectDrag | null>(null);
+  const draftObjectRef = useRef<CanvasObject | null>(null);
+  
+  // Text tool state; the text box being typed into is shown as a textarea overlay
+  const [textStyle, setTextStyle] = useState({ fontSize: 24, letterSpacing: 1, lineHeight: 1.5 });
+  const [editingText, setEditingText] = useState<TextObject | null>(null);
+  const editingTextRef = useRef<TextObject | null>(null);
+  
+  // Selection tool state; a transform in progress is previewed from a draft
+  const [selectionMode, setSelectionMode] = useState<'lasso' | 'rect'>('lasso');
+  const [selectedStrokeIds, setSelectedStrokeIds] = useState<string[]>([]);
+  const selectedStrokeIdsRef = useRef<Set<string>>(new Set());
+  const selectionDragRef = useRef<SelectionDrag | null>(null);
+  const selectionDraftRef = useRef<StrokePoint[] | null>(null);
+  
+  // Eraser state; erasing works on the stroke data, previewed from a draft
+  const [eraserMode, setEraserMode] = useState<EraserMode>('stroke');
+  const eraserDraftRef = useRef<StrokePoint[] | null>(null);
+  const eraserPositionRef = useRef<Point | null>(null);
   
-  // Draw lined paper background
-  const drawLinedPaper = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  // Command history; the canvas is always a replay of it on top of the background
+  const historyRef = useRef<StrokeHistory>(createHistory());
+  // Raster content of notes saved before strokes were recorded
+  const baseImageRef = useRef<HTMLImageElement | null>(null);
+  
+  // Viewport transform; strokes are stored in world coordinates
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+  const [zoomLevel, setZoomLevel] = useState(1);
+  const [isPanMode, setIsPanMode] = useState(false);
+  
+  // Input tracking shared by the touch, pointer and mouse handlers
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<Point | null>(null);
+  const gestureRef = useRef<TouchGesture | null>(null);
+  const panOriginRef = useRef<{ x: number; y: number } | null>(null);
+  
+  // Line spacing based on preference
+  const getLineSpacing = () => {
+    if (lineSpacing === 'wide') return 45;
+    if (lineSpacing === 'college') return 25;
+    return 30; // default single line
+  };
+  
+  // Draw lined paper background over the visible part of the world
+  const drawLinedPaper = (ctx: CanvasRenderingContext2D, rect: Rect) => {
     ctx.save();
     
-    // Line spacing based on preference
-    let lineSpacingPx = 30; // default single line
-    if (lineSpacing === 'wide') {
-      lineSpacingPx = 45;
-    } else if (lineSpacing === 'college') {
-      lineSpacingPx = 25;
-    }
+    const lineSpacingPx = getLineSpacing();
     
     // Draw horizontal lines
     ctx.beginPath();
     ctx.strokeStyle = "#e6e6ff"; // Light blue lines
     ctx.lineWidth = 1;
     
-    for (let y = lineSpacingPx; y < height; y += lineSpacingPx) {
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
+    for (let y = Math.floor(rect.top / lineSpacingPx) * lineSpacingPx; y < rect.bottom; y += lineSpacingPx) {
+      ctx.moveTo(rect.left, y);
+      ctx.lineTo(rect.right, y);
     }
     
     // Add a red margin line (left)
@@ -116,57 +255,48 @@ const DrawingCanvas = ({
       ctx.beginPath();
       ctx.strokeStyle = "#ffcccc"; // Light red
       ctx.lineWidth = 1;
-      ctx.moveTo(40, 0);
-      ctx.lineTo(40, height);
+      ctx.moveTo(40, rect.top);
+      ctx.lineTo(40, rect.bottom);
     }
     
     ctx.stroke();
     ctx.restore();
   };
   
-  // Draw graph paper background
-  const drawGraphPaper = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  // Draw graph paper background over the visible part of the world
+  const drawGraphPaper = (ctx: CanvasRenderingContext2D, rect: Rect) => {
     ctx.save();
     
     const gridSize = 20;
     
+    const drawGrid = (spacing: number) => {
+      ctx.beginPath();
+      
+      // Vertical lines
+      for (let x = Math.floor(rect.left / spacing) * spacing; x < rect.right; x += spacing) {
+        ctx.moveTo(x, rect.top);
+        ctx.lineTo(x, rect.bottom);
+      }
+      
+      // Horizontal lines
+      for (let y = Math.floor(rect.top / spacing) * spacing; y < rect.bottom; y += spacing) {
+        ctx.moveTo(rect.left, y);
+        ctx.lineTo(rect.right, y);
+      }
+      
+      ctx.stroke();
+    };
+    
     // Draw grid
-    ctx.beginPath();
     ctx.strokeStyle = "#e6e6e6"; // Light gray lines
     ctx.lineWidth = 0.5;
-    
-    // Vertical lines
-    for (let x = gridSize; x < width; x += gridSize) {
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, height);
-    }
-    
-    // Horizontal lines
-    for (let y = gridSize; y < height; y += gridSize) {
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
-    }
-    
-    ctx.stroke();
+    drawGrid(gridSize);
     
     // Add darker lines for main grid
-    ctx.beginPath();
     ctx.strokeStyle = "#cccccc"; // Darker gray for main grid
     ctx.lineWidth = 1;
+    drawGrid(gridSize * 5);
     
-    // Vertical main lines
-    for (let x = gridSize * 5; x < width; x += gridSize * 5) {
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, height);
-    }
-    
-    // Horizontal main lines
-    for (let y = gridSize * 5; y < height; y += gridSize * 5) {
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
-    }
-    
-    ctx.stroke();
     ctx.restore();
   };
   
@@ -177,166 +307,70 @@ const DrawingCanvas = ({
     
     if (!canvas || !container) return;
     
-    // Set canvas dimensions
+    // Size every layer to the container; the drawing is replayed from history so nothing is cropped
     const resizeCanvas = () => {
-      canvas.width = container.clientWidth;
-      canvas.height = container.clientHeight;
-      
-      // If we have history, restore the last state
-      if (historyIndex >= 0 && history[historyIndex]) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.putImageData(history[historyIndex].imageData, 0, 0);
-        }
-      } else {
-        drawCanvasBackground();
-      }
+      [backgroundCanvasRef.current, canvas, annotationCanvasRef.current, overlayCanvasRef.current].forEach(layer => {
+        if (!layer) return;
+        layer.width = container.clientWidth;
+        layer.height = container.clientHeight;
+      });
+      handlersRef.current.redrawCanvas();
     };
     
     resizeCanvas();
     window.addEventListener('resize', resizeCanvas);
     
-    // If there's initial content, load it
-    if (initialContent) {
+    // Vector strokes are loaded by the effect below; fall back to the raster content
+    if (!initialHistory && !initialStrokes?.length && initialContent) {
       const img = new Image();
       img.onload = () => {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          ctx.drawImage(img, 0, 0);
-          saveHistoryState();
-        }
+        baseImageRef.current = img;
+        handlersRef.current.redrawCanvas();
       };
       img.src = initialContent;
-    } else {
-      // Save initial blank state with background
-      drawCanvasBackground();
-      saveHistoryState();
     }
     
+    // Redraw text objects once the dyslexia-friendly font has loaded
+    document.fonts?.load(`16px ${TEXT_FONT_FAMILY}`)
+      .then(() => handlersRef.current.redrawCanvas())
+      .catch(() => {});
+    
     // Enable pointer events for tablet support (optional, as we now have mouse support too)
     // Check for stylus capability - define this first so we can reference it in cleanup
     const detectPenTablet = (e: PointerEvent) => {
       if (e.pointerType === 'pen') {
         setIsPenTabletDetected(true);
-        setCurrentTool('stylus');
+        setCurrentTool(tool => tool === 'pen' ? 'stylus' : tool);
         
         // Once detected, remove this listener
         window.removeEventListener('pointerdown', detectPenTablet);
       }
     };
-
-    // Touch state tracking
-    let touchDrawing = false;
-    let touchLastPoint: Point | null = null;
-
-    // Touch event handlers for better iPad support
-    const handleTouchStart = (e: TouchEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-      
-      const touch = e.touches[0];
-      if (!touch) return;
-      
-      const rect = canvas.getBoundingClientRect();
-      const point: Point = {
-        x: touch.clientX - rect.left,
-        y: touch.clientY - rect.top,
-        pressure: 1
-      };
-      
-      touchDrawing = true;
-      touchLastPoint = point;
-      
-      // Start stroke tracking
-      const newStrokeId = `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      setCurrentStrokeId(newStrokeId);
-      setStrokeStartTime(Date.now());
-      
-      const strokePoint = createStrokePoint(point.x, point.y, true, point.pressure);
-      setCurrentStroke([strokePoint]);
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        configureContext(ctx);
-        ctx.beginPath();
-        ctx.moveTo(point.x, point.y);
-        ctx.lineTo(point.x, point.y);
-        ctx.stroke();
-      }
-    };
-
-    const handleTouchMove = (e: TouchEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-      
-      if (!touchDrawing || !touchLastPoint) return;
-      
-      const touch = e.touches[0];
-      if (!touch) return;
-      
-      const rect = canvas.getBoundingClientRect();
-      const currentPoint: Point = {
-        x: touch.clientX - rect.left,
-        y: touch.clientY - rect.top,
-        pressure: 1
-      };
-      
-      // Add stroke point
-      const strokePoint = createStrokePoint(currentPoint.x, currentPoint.y, true, currentPoint.pressure);
-      setCurrentStroke(prev => [...prev, strokePoint]);
-      
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        configureContext(ctx);
-        ctx.beginPath();
-        ctx.moveTo(touchLastPoint.x, touchLastPoint.y);
-        ctx.lineTo(currentPoint.x, currentPoint.y);
-        ctx.stroke();
-        touchLastPoint = currentPoint;
-      }
-    };
-
-    const handleTouchEnd = (e: TouchEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-      
-      if (touchDrawing) {
-        touchDrawing = false;
-        
-        // Add final pen_down: false point
-        if (touchLastPoint) {
-          const finalStrokePoint = createStrokePoint(touchLastPoint.x, touchLastPoint.y, false, 1);
-          const updatedStroke = [...currentStroke, finalStrokePoint];
-          const newAllStrokes = [...allStrokes, ...updatedStroke];
-          
-          setAllStrokes(newAllStrokes);
-          
-          // Notify parent of stroke data change
-          if (onStrokeDataChange) {
-            onStrokeDataChange(newAllStrokes);
-          }
-        }
-        
-        touchLastPoint = null;
-        setCurrentStroke([]);
-        saveHistoryState();
-      }
-    };
+    
+    // These listeners are registered once, so they forward to the latest handlers
+    const onTouchStart = (e: TouchEvent) => handlersRef.current.handleTouchStart(e);
+    const onTouchMove = (e: TouchEvent) => handlersRef.current.handleTouchMove(e);
+    const onTouchEnd = (e: TouchEvent) => handlersRef.current.handleTouchEnd(e);
+    const onPointerDown = (e: PointerEvent) => handlersRef.current.handlePointerDown(e);
+    const onPointerMove = (e: PointerEvent) => handlersRef.current.handlePointerMove(e);
+    const onPointerUp = (e: PointerEvent) => handlersRef.current.handlePointerUp(e);
+    const onWheel = (e: WheelEvent) => handlersRef.current.handleWheel(e);
     
     try {
       // Add touch event listeners with highest priority for iPad support
-      canvas.addEventListener('touchstart', handleTouchStart, { passive: false });
-      canvas.addEventListener('touchmove', handleTouchMove, { passive: false });
-      canvas.addEventListener('touchend', handleTouchEnd, { passive: false });
-      canvas.addEventListener('touchcancel', handleTouchEnd, { passive: false });
+      canvas.addEventListener('touchstart', onTouchStart, { passive: false });
+      canvas.addEventListener('touchmove', onTouchMove, { passive: false });
+      canvas.addEventListener('touchend', onTouchEnd, { passive: false });
+      canvas.addEventListener('touchcancel', onTouchEnd, { passive: false });
+      canvas.addEventListener('wheel', onWheel, { passive: false });
       
       // Only add pointer events if touch is not supported
       if (!('ontouchstart' in window)) {
-        canvas.addEventListener('pointerdown', handlePointerDown);
-        canvas.addEventListener('pointermove', handlePointerMove);
-        canvas.addEventListener('pointerup', handlePointerUp);
-        canvas.addEventListener('pointerout', handlePointerUp);
-        canvas.addEventListener('pointercancel', handlePointerUp);
+        canvas.addEventListener('pointerdown', onPointerDown);
+        canvas.addEventListener('pointermove', onPointerMove);
+        canvas.addEventListener('pointerup', onPointerUp);
+        canvas.addEventListener('pointerout', onPointerUp);
+        canvas.addEventListener('pointercancel', onPointerUp);
         window.addEventListener('pointerdown', detectPenTablet);
       }
       
@@ -352,8 +386,9 @@ const DrawingCanvas = ({
     }
     
     // Notify parent component that canvas is ready
-    if (onCanvasReady) {
-      onCanvasReady(canvas);
+    const layers = getLayers();
+    if (onCanvasReady && layers) {
+      onCanvasReady(canvas, layers);
     }
     
     return () => {
@@ -361,440 +396,988 @@ const DrawingCanvas = ({
       
       // Clean up all event listeners
       try {
-        canvas.removeEventListener('pointerdown', handlePointerDown);
-        canvas.removeEventListener('pointermove', handlePointerMove);
-        canvas.removeEventListener('pointerup', handlePointerUp);
-        canvas.removeEventListener('pointerout', handlePointerUp);
-        canvas.removeEventListener('pointercancel', handlePointerUp);
-        canvas.removeEventListener('touchstart', handleTouchStart);
-        canvas.removeEventListener('touchmove', handleTouchMove);
-        canvas.removeEventListener('touchend', handleTouchEnd);
-        canvas.removeEventListener('touchcancel', handleTouchEnd);
+        canvas.removeEventListener('pointerdown', onPointerDown);
+        canvas.removeEventListener('pointermove', onPointerMove);
+        canvas.removeEventListener('pointerup', onPointerUp);
+        canvas.removeEventListener('pointerout', onPointerUp);
+        canvas.removeEventListener('pointercancel', onPointerUp);
+        canvas.removeEventListener('touchstart', onTouchStart);
+        canvas.removeEventListener('touchmove', onTouchMove);
+        canvas.removeEventListener('touchend', onTouchEnd);
+        canvas.removeEventListener('touchcancel', onTouchEnd);
+        canvas.removeEventListener('wheel', onWheel);
         window.removeEventListener('pointerdown', detectPenTablet);
       } catch (err) {
         console.log('Error cleaning up events:', err);
       }
     };
   }, []);
-
-  // Save current canvas state to history
-  const saveHistoryState = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  
+  // Re-render when the parent supplies different strokes (e.g. a note finished loading)
+  useEffect(() => {
+    if (initialHistory && initialHistory !== historyRef.current) {
+      loadStrokes(initialStrokes || [], initialHistory);
+    } else if (
+      !initialHistory &&
+      ((initialStrokes && initialStrokes !== allStrokesRef.current) ||
+        (initialObjects && initialObjects !== objectsRef.current))
+    ) {
+      loadStrokes(initialStrokes || [], null, initialObjects || []);
+    }
+  }, [initialStrokes, initialHistory, initialObjects]);
+  
+  // Delete the selected object or strokes with the keyboard
+  useEffect(() => {
+    if (!selectedObjectId && selectedStrokeIds.length === 0) return;
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteSelectedObject();
+        deleteSelectedStrokes();
+      } else if (e.key === 'Escape') {
+        selectObject(null);
+        selectStrokeIds(new Set());
+        redrawCanvas();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedObjectId, selectedStrokeIds]);
 
-    // If we're not at the end of the history, truncate it
-    if (historyIndex < history.length - 1) {
-      setHistory(prev => prev.slice(0, historyIndex + 1));
+  // Only the background layer changes with the background settings
+  useEffect(() => {
+    redrawBackground();
+  }, [backgroundStyle, lineSpacing]);
+  
+  // Replay the current strokes onto a freshly painted background
+  const redrawCanvas = () => {
+    redrawBackground();
+    redrawInk();
+    redrawOverlay();
+  };
+  
+  // Clear a layer and set it up for drawing in world coordinates
+  const prepareLayer = (canvas: HTMLCanvasElement | null) => {
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+    
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    applyViewportTransform(ctx, viewportRef.current);
+    return ctx;
+  };
+  
+  // Paper lines or grid, kept apart from the ink so they can't be erased or change with it
+  const redrawBackground = () => {
+    const canvas = backgroundCanvasRef.current;
+    const ctx = prepareLayer(canvas);
+    if (!canvas || !ctx) return;
+    
+    drawCanvasBackground(ctx, getVisibleRect(viewportRef.current, canvas.width, canvas.height));
+  };
+  
+  // Strokes and objects on the ink layer, annotation strokes on the layer above it
+  const redrawInk = () => {
+    const inkCtx = prepareLayer(canvasRef.current);
+    const annotationCtx = prepareLayer(annotationCanvasRef.current);
+    if (!inkCtx || !annotationCtx) return;
+    
+    if (baseImageRef.current) {
+      inkCtx.drawImage(baseImageRef.current, 0, 0);
     }
     
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    // Strokes, with a selection being transformed or strokes being erased shown live
+    const selectionDraft = selectionDraftRef.current;
+    const selectedIds = selectedStrokeIdsRef.current;
+    const strokes = selectionDraft
+      ? [...allStrokesRef.current.filter(p => !p.stroke_id || !selectedIds.has(p.stroke_id)), ...selectionDraft]
+      : eraserDraftRef.current ?? allStrokesRef.current;
+    renderStrokes(inkCtx, strokes.filter(p => p.layer !== 'annotation'));
+    renderStrokes(annotationCtx, strokes.filter(p => p.layer === 'annotation'));
+    
+    // Objects, with the one being dragged shown at its live position and the
+    // text box being edited left to the textarea overlay
+    const draft = draftObjectRef.current;
+    const editingId = editingTextRef.current?.id;
+    const objects = draft
+      ? [...objectsRef.current.filter(o => o.id !== draft.id), draft]
+      : objectsRef.current;
+    renderObjects(inkCtx, objects.filter(o => o.id !== editingId));
+  };
+  
+  // Selection outlines and the eraser cursor, which never end up in exports
+  const redrawOverlay = () => {
+    const ctx = prepareLayer(overlayCanvasRef.current);
+    if (!ctx) return;
     
-    setHistory(prev => [...prev, { imageData }]);
-    setHistoryIndex(prev => prev + 1);
+    const viewport = viewportRef.current;
     
-    // Notify parent of content change
-    if (onContentChange) {
-      onContentChange(canvas.toDataURL());
+    // Eraser outline
+    const eraserPosition = eraserPositionRef.current;
+    if (eraserPosition) {
+      ctx.save();
+      ctx.strokeStyle = '#999999';
+      ctx.lineWidth = 1 / viewport.scale;
+      ctx.beginPath();
+      ctx.arc(eraserPosition.x, eraserPosition.y, getEraserRadius(), 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+    
+    const draft = draftObjectRef.current;
+    const selected = draft ?? objectsRef.current.find(o => o.id === selectedObjectIdRef.current);
+    if (selected) {
+      drawObjectSelection(ctx, selected, viewport.scale);
+    }
+    
+    // Lasso or rectangle being drawn, otherwise the box around the selected strokes
+    const selectionDrag = selectionDragRef.current;
+    const selectedIds = selectedStrokeIdsRef.current;
+    if (selectionDrag?.mode === 'lasso') {
+      drawLasso(ctx, selectionDrag.path, viewport.scale);
+    } else if (selectionDrag?.mode === 'rect') {
+      const rect = rectFromPoints(selectionDrag.origin, selectionDrag.path[selectionDrag.path.length - 1]);
+      drawLasso(ctx, [
+        { x: rect.left, y: rect.top },
+        { x: rect.right, y: rect.top },
+        { x: rect.right, y: rect.bottom },
+        { x: rect.left, y: rect.bottom }
+      ], viewport.scale);
+    } else if (selectedIds.size > 0) {
+      const bounds = getStrokesBounds(
+        selectionDraftRef.current ?? getSelectedPoints(allStrokesRef.current, selectedIds)
+      );
+      if (bounds) {
+        drawSelectionBounds(ctx, bounds, viewport.scale);
+      }
     }
   };
   
-  // Undo function
-  const handleUndo = () => {
-    if (historyIndex <= 0) return;
+  // The layers in a form the parent can export
+  const getLayers = (): CanvasLayers | null => {
+    const background = backgroundCanvasRef.current;
+    const ink = canvasRef.current;
+    const annotation = annotationCanvasRef.current;
+    return background && ink && annotation ? { background, ink, annotation } : null;
+  };
+  
+  // Make a history state current: sync strokes, redraw and notify the parent
+  const applyHistory = (history: StrokeHistory) => {
+    historyRef.current = history;
+    allStrokesRef.current = getHistoryStrokes(history);
+    objectsRef.current = getHistoryObjects(history);
+    if (!objectsRef.current.some(o => o.id === selectedObjectIdRef.current)) {
+      selectObject(null);
+    }
     
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // Keep only the selected strokes that still exist
+    const strokeIds = new Set(allStrokesRef.current.map(p => p.stroke_id));
+    const remaining = Array.from(selectedStrokeIdsRef.current).filter(id => strokeIds.has(id));
+    if (remaining.length !== selectedStrokeIdsRef.current.size) {
+      selectStrokeIds(new Set(remaining));
+    }
+    setUndoAvailable(canUndo(history));
+    setRedoAvailable(canRedo(history));
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    redrawCanvas();
+    
+    if (onStrokeDataChange) {
+      onStrokeDataChange(allStrokesRef.current);
+    }
+    
+    if (onObjectsChange) {
+      onObjectsChange(objectsRef.current);
+    }
     
-    setHistoryIndex(prev => prev - 1);
-    ctx.putImageData(history[historyIndex - 1].imageData, 0, 0);
+    if (onHistoryChange) {
+      onHistoryChange(history);
+    }
     
     // Notify parent of content change
-    if (onContentChange) {
+    const canvas = canvasRef.current;
+    if (canvas && onContentChange) {
       onContentChange(canvas.toDataURL());
     }
   };
   
+  // Record an undoable command
+  const executeCommand = (command: HistoryCommand) => {
+    applyHistory(pushCommand(historyRef.current, command));
+  };
+  
+  // Undo function
+  const handleUndo = () => {
+    applyHistory(undo(historyRef.current));
+  };
+  
   // Redo function
   const handleRedo = () => {
-    if (historyIndex >= history.length - 1) return;
+    applyHistory(redo(historyRef.current));
+  };
+  
+  // Clear canvas
+  const handleClear = () => {
+    // Legacy raster content cannot be restored by undo, so it is dropped for good
+    baseImageRef.current = null;
+    currentStrokeRef.current = [];
+    
+    executeCommand({
+      type: 'clear',
+      removed: allStrokesRef.current,
+      added: [],
+      removedObjects: objectsRef.current,
+      addedObjects: []
+    });
+  };
+  
+  // Change the viewport and redraw
+  const setViewport = (viewport: Viewport) => {
+    // The text overlay is positioned for the old viewport
+    commitTextEdit();
+    viewportRef.current = viewport;
+    setZoomLevel(viewport.scale);
+    redrawCanvas();
+    onViewportChange?.(viewport);
+  };
+  
+  // Zoom around the centre of the canvas (toolbar buttons)
+  const handleZoom = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
     
+    setViewport(zoomAt(viewportRef.current, canvas.width / 2, canvas.height / 2, factor));
+  };
+  
+  // Fit all strokes into view, or return to the origin when the canvas is empty
+  const handleFitToContent = () => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const bounds = getStrokesBounds(allStrokesRef.current);
+    setViewport(bounds ? fitToRect(bounds, canvas.width, canvas.height) : DEFAULT_VIEWPORT);
+  };
+  
+  // Convert client coordinates to canvas pixels
+  const getScreenPoint = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return {
+      x: clientX - (rect?.left ?? 0),
+      y: clientY - (rect?.top ?? 0)
+    };
+  };
+  
+  // Convert client coordinates to world coordinates
+  const getWorldPoint = (clientX: number, clientY: number, pressure: number = 1): Point => {
+    const screen = getScreenPoint(clientX, clientY);
+    return {
+      ...screenToWorld(viewportRef.current, screen.x, screen.y),
+      pressure
+    };
+  };
+  
+  // Get a context that draws in world coordinates
+  const getWorldContext = () => {
+    const layer = isAnnotating ? annotationCanvasRef.current : canvasRef.current;
+    const ctx = layer?.getContext('2d');
+    if (!ctx) return null;
+    
+    applyViewportTransform(ctx, viewportRef.current);
+    return ctx;
+  };
+  
+  // Start a stroke at a world point
+  const beginStroke = (point: Point) => {
+    isDrawingRef.current = true;
+    lastPointRef.current = point;
     
-    setHistoryIndex(prev => prev + 1);
-    ctx.putImageData(history[historyIndex + 1].imageData, 0, 0);
+    // Start stroke tracking
+    startStroke();
+    currentStrokeRef.current = [createStrokePoint(point.x, point.y, true, point.pressure)];
     
-    // Notify parent of content change
-    if (onContentChange) {
-      onContentChange(canvas.toDataURL());
+    const ctx = getWorldContext();
+    if (ctx) {
+      drawPoint(ctx, point);
     }
   };
   
-  // Clear canvas
-  const handleClear = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // Extend the current stroke to a world point
+  const extendStroke = (point: Point) => {
+    if (!isDrawingRef.current || !lastPointRef.current) return;
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    // Add stroke point
+    currentStrokeRef.current.push(createStrokePoint(point.x, point.y, true, point.pressure));
     
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Draw a line from last position to current position
+    const ctx = getWorldContext();
+    if (ctx) {
+      drawLine(ctx, lastPointRef.current, point);
+    }
     
-    // Clear stroke data
-    setAllStrokes([]);
-    setCurrentStroke([]);
-    if (onStrokeDataChange) {
-      onStrokeDataChange([]);
+    lastPointRef.current = point;
+  };
+  
+  // Finish the current stroke and record it
+  const endStroke = (point?: Point) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    
+    // Add final pen_down: false point
+    const finalPoint = point ?? lastPointRef.current;
+    const stroke = finalPoint
+      ? [...currentStrokeRef.current, createStrokePoint(finalPoint.x, finalPoint.y, false, finalPoint.pressure)]
+      : currentStrokeRef.current;
+    
+    currentStrokeRef.current = [];
+    lastPointRef.current = null;
+    
+    // With shape correction on, a recognized shape is recorded instead of the
+    // freehand stroke, so a single undo takes it away
+    const corrected = enableShapeCorrection && mode === 'free' ? correctShape(stroke) : null;
+    if (corrected) {
+      executeCommand({ type: 'shape-correct', removed: [], added: corrected });
+    } else {
+      commitStroke(stroke);
     }
+  };
+  
+  // Abandon the current stroke without recording it
+  const cancelStroke = () => {
+    isDrawingRef.current = false;
+    currentStrokeRef.current = [];
+    lastPointRef.current = null;
+    redrawCanvas();
+  };
+  
+  const getSelectedObject = () =>
+    objectsRef.current.find(o => o.id === selectedObjectIdRef.current) || null;
+  
+  const selectObject = (id: string | null) => {
+    selectedObjectIdRef.current = id;
+    setSelectedObjectId(id);
+  };
+  
+  const deleteSelectedObject = () => {
+    const selected = getSelectedObject();
+    if (!selected) return;
     
-    saveHistoryState();
+    executeCommand({ type: 'delete-object', removed: [], added: [], removedObjects: [selected], addedObjects: [] });
   };
   
-  // Pointer events handlers (for pen tablet support)
-  const handlePointerDown = (e: PointerEvent) => {
-    // Skip all touch-based pointer events completely
-    if (e.pointerType === 'touch') {
-      e.preventDefault();
-      e.stopPropagation();
+  // Apply a style change to the selected shape
+  const restyleSelectedObject = (changes: Partial<ShapeObject>) => {
+    const selected = getSelectedObject();
+    if (!selected || selected.kind !== 'shape') return;
+    
+    executeCommand({
+      type: 'update-object',
+      removed: [],
+      added: [],
+      removedObjects: [selected],
+      addedObjects: [{ ...selected, ...changes }]
+    });
+  };
+  
+  // Shapes tool: grab a handle or shape of the selection, or start drawing a new shape
+  const beginShapeDrag = (point: Point) => {
+    const tolerance = 6 / viewportRef.current.scale;
+    const selected = getSelectedObject();
+    const handle = selected ? findHandleAt(selected, point, tolerance * 1.5) : null;
+    
+    if (selected && selected.kind === 'shape' && handle) {
+      objectDragRef.current = { mode: 'resize', origin: point, original: selected, handle };
       return;
     }
     
-    setIsDrawing(true);
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    // Capture pointer to ensure all events are directed to this element
-    (e.target as HTMLElement).setPointerCapture(e.pointerId);
-    
-    const rect = canvas.getBoundingClientRect();
-    const point: Point = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
-      pressure: e.pressure || 1 // Default to 1 if pressure is not supported
-    };
+    const hit = findObjectAt(objectsRef.current, point, tolerance);
+    if (hit && hit.kind === 'shape') {
+      selectObject(hit.id);
+      objectDragRef.current = { mode: 'move', origin: point, original: hit };
+      redrawCanvas();
+      return;
+    }
     
-    // If it's a stylus, automatically switch to stylus tool
-    if (e.pointerType === 'pen' && currentTool !== 'eraser') {
-      setCurrentTool('stylus');
+    const shape = createShapeObject(shapeType, point, {
+      strokeColor: penColor,
+      strokeWidth: penSize,
+      fillColor: shapeFilled ? `${penColor}33` : null
+    });
+    selectObject(null);
+    objectDragRef.current = { mode: 'create', origin: point, original: shape };
+    draftObjectRef.current = shape;
+  };
+  
+  const updateObjectDrag = (point: Point) => {
+    const drag = objectDragRef.current;
+    if (!drag) return;
+    
+    switch (drag.mode) {
+      case 'create':
+        draftObjectRef.current = {
+          ...drag.original,
+          width: point.x - drag.origin.x,
+          height: point.y - drag.origin.y
+        };
+        break;
+      case 'move':
+        draftObjectRef.current = moveObject(drag.original, point.x - drag.origin.x, point.y - drag.origin.y);
+        break;
+      case 'resize':
+        draftObjectRef.current = resizeObject(drag.original, drag.handle!, point);
+        break;
     }
     
-    // Start stroke tracking
-    const newStrokeId = `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    setCurrentStrokeId(newStrokeId);
-    setStrokeStartTime(Date.now());
-    
-    const strokePoint = createStrokePoint(point.x, point.y, true, point.pressure);
-    setCurrentStroke([strokePoint]);
-    
-    // Store the start point for shape detection
-    if (enableShapeCorrection && mode === 'free') {
-      setCurrentShape({
-        type: 'none',
-        startPoint: point,
-        points: [point]
-      });
+    redrawCanvas();
+  };
+  
+  const endObjectDrag = () => {
+    const drag = objectDragRef.current;
+    const draft = draftObjectRef.current;
+    objectDragRef.current = null;
+    draftObjectRef.current = null;
+    
+    if (!drag || !draft) {
+      redrawCanvas();
+      return;
     }
     
-    setLastPosition(point);
+    if (drag.mode === 'create') {
+      // A click without dragging only clears the selection
+      if (Math.hypot(draft.width, draft.height) < 5) {
+        redrawCanvas();
+        return;
+      }
+      
+      selectObject(draft.id);
+      executeCommand({ type: 'add-object', removed: [], added: [], removedObjects: [], addedObjects: [draft] });
+      return;
+    }
     
-    // Start a new path for this stroke
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      configureContext(ctx);
-      ctx.beginPath();
-      drawPoint(ctx, point);
+    // A click without dragging leaves the object where it was
+    if (draft.x === drag.original.x && draft.y === drag.original.y &&
+        draft.width === drag.original.width && draft.height === drag.original.height) {
+      if (drag.original.kind === 'text' && currentTool === 'text') {
+        startTextEdit(drag.original);
+      } else {
+        redrawCanvas();
+      }
+      return;
     }
+    
+    executeCommand({
+      type: 'update-object',
+      removed: [],
+      added: [],
+      removedObjects: [drag.original],
+      addedObjects: [draft]
+    });
   };
   
-  const handlePointerMove = (e: PointerEvent) => {
-    // Skip all touch-based pointer events completely
-    if (e.pointerType === 'touch') {
-      e.preventDefault();
-      e.stopPropagation();
+  // Text tool: drag an existing text box, or start typing a new one
+  const beginTextInput = (point: Point) => {
+    // Tapping away from the text box being edited only finishes it
+    if (editingTextRef.current) {
+      commitTextEdit();
       return;
     }
     
-    if (!isDrawing) return;
+    const hit = findObjectAt(objectsRef.current, point, 6 / viewportRef.current.scale);
+    if (hit && hit.kind === 'text') {
+      objectDragRef.current = { mode: 'move', origin: point, original: hit };
+      return;
+    }
     
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    startTextEdit(createTextObject(point, { ...textStyle, color: penColor }));
+  };
+  
+  const startTextEdit = (text: TextObject) => {
+    editingTextRef.current = text;
+    setEditingText(text);
+    redrawCanvas();
+  };
+  
+  const updateEditingText = (changes: Partial<TextObject>) => {
+    if (!editingTextRef.current) return;
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const text = { ...editingTextRef.current, ...changes };
+    editingTextRef.current = text;
+    setEditingText(text);
+  };
+  
+  // Save the text box being edited; emptying a text box deletes it
+  const commitTextEdit = () => {
+    const editing = editingTextRef.current;
+    if (!editing) return;
     
-    const rect = canvas.getBoundingClientRect();
-    const point: Point = {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
-      pressure: e.pressure || 1
-    };
+    editingTextRef.current = null;
+    setEditingText(null);
     
-    // Add stroke point
-    const strokePoint = createStrokePoint(point.x, point.y, true, point.pressure);
-    setCurrentStroke(prev => [...prev, strokePoint]);
+    const ctx = canvasRef.current?.getContext('2d');
+    const existing = objectsRef.current.find(o => o.id === editing.id);
     
-    // For shape correction, collect points during drawing
-    if (enableShapeCorrection && mode === 'free') {
-      setCurrentShape(prev => ({
-        ...prev,
-        points: [...prev.points, point]
-      }));
+    if (!ctx || !editing.text.trim()) {
+      if (existing) {
+        executeCommand({ type: 'delete-object', removed: [], added: [], removedObjects: [existing], addedObjects: [] });
+      } else {
+        redrawCanvas();
+      }
+      return;
     }
     
-    // Draw a line from last position to current position
-    configureContext(ctx);
-    drawLine(ctx, lastPosition, point);
-    
-    setLastPosition(point);
+    const measured = measureTextObject(ctx, editing);
+    executeCommand({
+      type: existing ? 'update-object' : 'add-object',
+      removed: [],
+      added: [],
+      removedObjects: existing ? [existing] : [],
+      addedObjects: [measured]
+    });
   };
   
-  // Function to draw the canvas background
-  const drawCanvasBackground = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const selectStrokeIds = (ids: Set<string>) => {
+    selectedStrokeIdsRef.current = ids;
+    setSelectedStrokeIds(Array.from(ids));
+  };
+  
+  // Selection tool: grab a handle or the inside of the selection, or start a new lasso/rectangle
+  const beginSelection = (point: Point) => {
+    const scale = viewportRef.current.scale;
+    const original = getSelectedPoints(allStrokesRef.current, selectedStrokeIdsRef.current);
+    const bounds = getStrokesBounds(original);
+    
+    if (bounds) {
+      const handles = getSelectionHandles(bounds, scale);
+      const radius = 9 / scale;
+      const corner = handles.corners.find(handle => Math.hypot(handle.x - point.x, handle.y - point.y) <= radius);
+      const isInside = point.x >= bounds.left && point.x <= bounds.right &&
+        point.y >= bounds.top && point.y <= bounds.bottom;
+      
+      if (Math.hypot(handles.rotate.x - point.x, handles.rotate.y - point.y) <= radius) {
+        selectionDragRef.current = { mode: 'rotate', origin: point, path: [], original, bounds };
+        return;
+      }
+      if (corner) {
+        selectionDragRef.current = { mode: 'scale', origin: point, path: [], original, bounds, handle: corner };
+        return;
+      }
+      if (isInside) {
+        selectionDragRef.current = { mode: 'move', origin: point, path: [], original, bounds };
+        return;
+      }
+    }
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    selectStrokeIds(new Set());
+    selectionDragRef.current = { mode: selectionMode, origin: point, path: [point], original: [], bounds: null };
+    redrawCanvas();
+  };
+  
+  const updateSelection = (point: Point) => {
+    const drag = selectionDragRef.current;
+    if (!drag) return;
     
-    // Clear the background first
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const { origin, original, bounds } = drag;
     
-    // Draw the selected background
-    switch(backgroundStyle) {
-      case 'lined':
-        drawLinedPaper(ctx, canvas.width, canvas.height);
+    switch (drag.mode) {
+      case 'lasso':
+      case 'rect':
+        drag.path.push(point);
         break;
-      case 'graph':
-        drawGraphPaper(ctx, canvas.width, canvas.height);
+      case 'move':
+        selectionDraftRef.current = translatePoints(original, point.x - origin.x, point.y - origin.y);
         break;
-      case 'blank':
-      default:
-        // Already filled with white
+      case 'scale': {
+        if (!bounds || !drag.handle) break;
+        // Scale away from the opposite corner, which stays fixed
+        const fixed = {
+          x: drag.handle.fx === 0 ? bounds.right : bounds.left,
+          y: drag.handle.fy === 0 ? bounds.bottom : bounds.top
+        };
+        const width = drag.handle.x - fixed.x;
+        const height = drag.handle.y - fixed.y;
+        selectionDraftRef.current = scalePoints(
+          original,
+          fixed,
+          width !== 0 ? (point.x - fixed.x) / width : 1,
+          height !== 0 ? (point.y - fixed.y) / height : 1
+        );
         break;
+      }
+      case 'rotate': {
+        if (!bounds) break;
+        const center = { x: (bounds.left + bounds.right) / 2, y: (bounds.top + bounds.bottom) / 2 };
+        const angle = Math.atan2(point.y - center.y, point.x - center.x) -
+          Math.atan2(origin.y - center.y, origin.x - center.x);
+        selectionDraftRef.current = rotatePoints(original, center, angle);
+        break;
+      }
     }
+    
+    redrawCanvas();
   };
   
-  const handlePointerUp = (e: PointerEvent) => {
-    // Skip all touch-based pointer events completely
-    if (e.pointerType === 'touch') {
-      e.preventDefault();
-      e.stopPropagation();
+  const endSelection = () => {
+    const drag = selectionDragRef.current;
+    const draft = selectionDraftRef.current;
+    selectionDragRef.current = null;
+    selectionDraftRef.current = null;
+    
+    if (!drag) return;
+    
+    if (drag.mode === 'lasso') {
+      selectStrokeIds(selectStrokesInLasso(allStrokesRef.current, drag.path));
+      redrawCanvas();
       return;
     }
     
-    if (isDrawing) {
-      // Release pointer capture
-      if ((e.target as HTMLElement).hasPointerCapture?.(e.pointerId)) {
-        (e.target as HTMLElement).releasePointerCapture(e.pointerId);
-      }
-      
-      // Add final pen_down: false point
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (rect) {
-        const finalPoint: Point = {
-          x: e.clientX - rect.left,
-          y: e.clientY - rect.top,
-          pressure: e.pressure || 1
-        };
-        
-        const finalStrokePoint = createStrokePoint(finalPoint.x, finalPoint.y, false, finalPoint.pressure);
-        const updatedStroke = [...currentStroke, finalStrokePoint];
-        const newAllStrokes = [...allStrokes, ...updatedStroke];
-        
-        setAllStrokes(newAllStrokes);
-        
-        // Notify parent of stroke data change
-        if (onStrokeDataChange) {
-          onStrokeDataChange(newAllStrokes);
-        }
-      }
-      
-      // If shape correction is enabled, try to detect and correct shapes
-      if (enableShapeCorrection && mode === 'free') {
-        detectAndCorrectShape();
-      }
-      
-      setIsDrawing(false);
-      setCurrentStroke([]);
-      saveHistoryState();
+    if (drag.mode === 'rect') {
+      const rect = rectFromPoints(drag.origin, drag.path[drag.path.length - 1]);
+      selectStrokeIds(selectStrokesInRect(allStrokesRef.current, rect));
+      redrawCanvas();
+      return;
     }
+    
+    if (!draft) {
+      redrawCanvas();
+      return;
+    }
+    
+    executeCommand({ type: 'transform-strokes', removed: drag.original, added: draft });
   };
   
-  // Function to detect and correct drawn shapes
-  const detectAndCorrectShape = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const getSelectedStrokes = () =>
+    getSelectedPoints(allStrokesRef.current, selectedStrokeIdsRef.current);
+  
+  const deleteSelectedStrokes = () => {
+    const selected = getSelectedStrokes();
+    if (selected.length === 0) return;
     
-    // We need at least the current history state to analyze
-    if (historyIndex < 0 || !history[historyIndex]) return;
+    executeCommand({ type: 'delete-strokes', removed: selected, added: [] });
+  };
+  
+  // Copy the selection and select the copy
+  const duplicateSelectedStrokes = () => {
+    const selected = getSelectedStrokes();
+    if (selected.length === 0) return;
+    
+    const copies = duplicatePoints(selected, 20);
+    selectStrokeIds(new Set(copies.map(p => p.stroke_id!)));
+    executeCommand({ type: 'duplicate-strokes', removed: [], added: copies });
+  };
+  
+  const recolorSelectedStrokes = (color: string) => {
+    const selected = getSelectedStrokes();
+    if (selected.length === 0) return;
     
-    // Get the current drawing's path points
-    // For a simple implementation, we'll detect basic shapes
-    // like lines, rectangles and circles based on start and end points
+    executeCommand({ type: 'recolor-strokes', removed: selected, added: recolorPoints(selected, color) });
+  };
+  
+  // Eraser size in world units, so it stays the same size on screen
+  const getEraserRadius = () => Math.max(penSize * 2, 8) / viewportRef.current.scale;
+  
+  const beginErase = (point: Point) => {
+    eraserDraftRef.current = eraseAt(allStrokesRef.current, point, getEraserRadius(), eraserMode);
+    eraserPositionRef.current = point;
+    redrawCanvas();
+  };
+  
+  // Erase along the path from the last position so fast movements leave no gaps
+  const continueErase = (point: Point) => {
+    const last = eraserPositionRef.current;
+    const draft = eraserDraftRef.current;
+    if (!last || !draft) return;
+    
+    const radius = getEraserRadius();
+    const steps = Math.max(1, Math.ceil(Math.hypot(point.x - last.x, point.y - last.y) / (radius / 2)));
+    let points = draft;
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      points = eraseAt(points, {
+        x: last.x + (point.x - last.x) * t,
+        y: last.y + (point.y - last.y) * t
+      }, radius, eraserMode);
+    }
     
-    // This is a simplified detection algorithm
-    // A real implementation would analyze the entire path and use ML algorithms
+    eraserDraftRef.current = points;
+    eraserPositionRef.current = point;
+    redrawCanvas();
+  };
+  
+  const endErase = () => {
+    const draft = eraserDraftRef.current;
+    eraserDraftRef.current = null;
+    eraserPositionRef.current = null;
+    
+    const { removed, added } = diffStrokes(allStrokesRef.current, draft || allStrokesRef.current);
+    if (removed.length === 0 && added.length === 0) {
+      redrawCanvas();
+      return;
+    }
     
-    // For demonstration, we'll implement a basic straight line detector
-    // If the user draws a nearly straight line, we'll correct it to a perfect line
+    executeCommand({ type: 'erase-stroke', removed, added });
+  };
+  
+  // Route input to the active tool
+  const startInput = (point: Point) => {
+    if (currentTool === 'eraser') {
+      beginErase(point);
+    } else if (currentTool === 'shape') {
+      beginShapeDrag(point);
+    } else if (currentTool === 'select') {
+      beginSelection(point);
+    } else if (currentTool === 'text') {
+      beginTextInput(point);
+    } else {
+      beginStroke(point);
+    }
+  };
+  
+  const moveInput = (point: Point) => {
+    if (eraserDraftRef.current) {
+      continueErase(point);
+    } else if (objectDragRef.current) {
+      updateObjectDrag(point);
+    } else if (selectionDragRef.current) {
+      updateSelection(point);
+    } else {
+      extendStroke(point);
+    }
+  };
+  
+  const endInput = (point?: Point) => {
+    if (eraserDraftRef.current) {
+      endErase();
+    } else if (objectDragRef.current) {
+      endObjectDrag();
+    } else if (selectionDragRef.current) {
+      endSelection();
+    } else {
+      endStroke(point);
+    }
+  };
+  
+  const cancelInput = () => {
+    objectDragRef.current = null;
+    draftObjectRef.current = null;
+    selectionDragRef.current = null;
+    selectionDraftRef.current = null;
+    eraserDraftRef.current = null;
+    eraserPositionRef.current = null;
+    cancelStroke();
+  };
+  
+  const isInputActive = () =>
+    isDrawingRef.current ||
+    objectDragRef.current !== null ||
+    selectionDragRef.current !== null ||
+    eraserDraftRef.current !== null;
+  
+  // Distance and midpoint (in canvas pixels) of a two-finger touch
+  const getTouchGesture = (first: Touch, second: Touch) => {
+    const a = getScreenPoint(first.clientX, first.clientY);
+    const b = getScreenPoint(second.clientX, second.clientY);
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    };
+  };
+
+  // Touch event handlers for better iPad support
+  const handleTouchStart = (e: TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    // Two fingers pinch-zoom and pan instead of drawing
+    if (e.touches.length >= 2) {
+      if (isInputActive()) {
+        cancelInput();
+      }
+      gestureRef.current = {
+        ...getTouchGesture(e.touches[0], e.touches[1]),
+        viewport: viewportRef.current
+      };
+      return;
+    }
     
-    const startX = currentShape.startPoint?.x || 0;
-    const startY = currentShape.startPoint?.y || 0;
-    const endX = lastPosition.x;
-    const endY = lastPosition.y;
+    const touch = e.touches[0];
+    if (!touch || gestureRef.current) return;
     
-    // Calculate distance between start and end points
-    const distance = Math.sqrt(
-      Math.pow(endX - startX, 2) + Math.pow(endY - startY, 2)
-    );
+    startInput(getWorldPoint(touch.clientX, touch.clientY, 1));
+  };
+
+  const handleTouchMove = (e: TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
     
-    // If the distance is significant (not just a dot)
-    if (distance > 20) {
-      // Check if it's a straight line (horizontal or vertical)
-      const isHorizontal = Math.abs(endY - startY) < 15;  // Within 15px
-      const isVertical = Math.abs(endX - startX) < 15;    // Within 15px
-      
-      if (isHorizontal) {
-        // Restore canvas to before this stroke
-        if (historyIndex > 0) {
-          ctx.putImageData(history[historyIndex - 1].imageData, 0, 0);
-        } else {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          drawCanvasBackground();
-        }
-        
-        // Draw a perfect horizontal line
-        ctx.save();
-        ctx.beginPath();
-        ctx.strokeStyle = penColor;
-        ctx.lineWidth = penSize;
-        ctx.moveTo(startX, startY);
-        ctx.lineTo(endX, startY);
-        ctx.stroke();
-        ctx.restore();
-        
-        return;
-      }
+    const gesture = gestureRef.current;
+    if (gesture) {
+      if (e.touches.length < 2) return;
       
-      if (isVertical) {
-        // Restore canvas to before this stroke
-        if (historyIndex > 0) {
-          ctx.putImageData(history[historyIndex - 1].imageData, 0, 0);
-        } else {
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          drawCanvasBackground();
-        }
-        
-        // Draw a perfect vertical line
-        ctx.save();
-        ctx.beginPath();
-        ctx.strokeStyle = penColor;
-        ctx.lineWidth = penSize;
-        ctx.moveTo(startX, startY);
-        ctx.lineTo(startX, endY);
-        ctx.stroke();
-        ctx.restore();
-        
-        return;
+      const current = getTouchGesture(e.touches[0], e.touches[1]);
+      const zoomed = zoomAt(
+        gesture.viewport,
+        gesture.midpoint.x,
+        gesture.midpoint.y,
+        current.distance / Math.max(gesture.distance, 1)
+      );
+      setViewport(panBy(
+        zoomed,
+        current.midpoint.x - gesture.midpoint.x,
+        current.midpoint.y - gesture.midpoint.y
+      ));
+      return;
+    }
+    
+    const touch = e.touches[0];
+    if (!touch) return;
+    
+    moveInput(getWorldPoint(touch.clientX, touch.clientY, 1));
+  };
+
+  const handleTouchEnd = (e: TouchEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (gestureRef.current) {
+      // The gesture ends once every finger has lifted
+      if (e.touches.length === 0) {
+        gestureRef.current = null;
       }
-      
-      // Check if it's a rectangle
-      // For demonstration, this is a very simplified detector
-      // A real implementation would analyze the entire path
-      
-      // For circles, check if the path roughly forms a circle
-      // This would require more sophisticated analysis
+      return;
     }
+    
+    endInput();
   };
   
-  // Mouse event handlers (fallback for non-pointer devices)
-  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    // Allow both pointer events and mouse events to work
-    // This ensures backward compatibility with all devices
-    setIsDrawing(true);
+  // Pointer events handlers (for pen tablet support). Touch is handled by the
+  // touch events and mouse by the React mouse handlers below.
+  const handlePointerDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen') {
+      if (e.pointerType === 'touch') {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+      return;
+    }
     
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    // Stops the browser from also sending compatibility mouse events
+    e.preventDefault();
     
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // Capture pointer to ensure all events are directed to this element
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
     
-    // Start stroke tracking
-    const newStrokeId = `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    setCurrentStrokeId(newStrokeId);
-    setStrokeStartTime(Date.now());
+    // If it's a stylus, automatically switch to stylus tool
+    if (currentTool === 'pen') {
+      setCurrentTool('stylus');
+    }
     
-    const strokePoint = createStrokePoint(x, y, true, 1);
-    setCurrentStroke([strokePoint]);
+    startInput(getWorldPoint(e.clientX, e.clientY, e.pressure || 1)); // Default to 1 if pressure is not supported
+  };
+  
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen') return;
     
-    setLastPosition({ x, y });
+    moveInput(getWorldPoint(e.clientX, e.clientY, e.pressure || 1));
+  };
+  
+  const handlePointerUp = (e: PointerEvent) => {
+    if (e.pointerType !== 'pen' || !isInputActive()) return;
     
-    // Start a new path
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      configureContext(ctx);
-      ctx.beginPath();
-      ctx.arc(x, y, penSize / 2, 0, Math.PI * 2);
-      ctx.fill();
+    // Release pointer capture
+    if ((e.target as HTMLElement).hasPointerCapture?.(e.pointerId)) {
+      (e.target as HTMLElement).releasePointerCapture(e.pointerId);
     }
+    
+    endInput(getWorldPoint(e.clientX, e.clientY, e.pressure || 1));
   };
   
-  const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  // Mouse wheel and trackpad pinch zoom around the cursor
+  const handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
     
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const screen = getScreenPoint(e.clientX, e.clientY);
+    setViewport(zoomAt(viewportRef.current, screen.x, screen.y, Math.exp(-e.deltaY * 0.002)));
+  };
+  
+  // Handlers used by the listeners registered in the mount effect
+  const handlersRef = useRef({
+    redrawCanvas,
+    handleTouchStart,
+    handleTouchMove,
+    handleTouchEnd,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handleWheel
+  });
+  handlersRef.current = {
+    redrawCanvas,
+    handleTouchStart,
+    handleTouchMove,
+    handleTouchEnd,
+    handlePointerDown,
+    handlePointerMove,
+    handlePointerUp,
+    handleWheel
+  };
+  
+  // Function to draw the canvas background
+  const drawCanvasBackground = (ctx: CanvasRenderingContext2D, rect: Rect) => {
+    // Clear the background first
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(rect.left, rect.top, rect.right - rect.left, rect.bottom - rect.top);
     
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    // Draw the selected background
+    switch(backgroundStyle) {
+      case 'lined':
+        drawLinedPaper(ctx, rect);
+        break;
+      case 'graph':
+        drawGraphPaper(ctx, rect);
+        break;
+      case 'blank':
+      default:
+        // Already filled with white
+        break;
+    }
+  };
+  
+  // A clean version of a freehand stroke, if it is recognized as a shape
+  const correctShape = (stroke: StrokePoint[]): StrokePoint[] | null => {
+    if (stroke.length < 2 || stroke[0].tool === 'eraser') return null;
     
-    // Add stroke point
-    const strokePoint = createStrokePoint(x, y, true, 1);
-    setCurrentStroke(prev => [...prev, strokePoint]);
+    const shape = recognizeShape(stroke);
+    return shape && shapeToStroke(shape, stroke, createStrokeId());
+  };
+  
+  // Mouse event handlers; drag pans instead of drawing in pan mode or with the middle button
+  const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isPanMode || e.button === 1) {
+      e.preventDefault();
+      panOriginRef.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
     
-    // Draw line from last position to current position
-    drawLine(ctx, lastPosition, { x, y });
+    startInput(getWorldPoint(e.clientX, e.clientY, 1));
+  };
+  
+  const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const panOrigin = panOriginRef.current;
+    if (panOrigin) {
+      setViewport(panBy(viewportRef.current, e.clientX - panOrigin.x, e.clientY - panOrigin.y));
+      panOriginRef.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
     
-    setLastPosition({ x, y });
+    moveInput(getWorldPoint(e.clientX, e.clientY, 1));
   };
   
   const stopDrawing = () => {
-    if (isDrawing) {
-      // Add final pen_down: false point
-      const finalStrokePoint = createStrokePoint(lastPosition.x, lastPosition.y, false, 1);
-      const updatedStroke = [...currentStroke, finalStrokePoint];
-      const newAllStrokes = [...allStrokes, ...updatedStroke];
-      
-      setAllStrokes(newAllStrokes);
-      
-      // Notify parent of stroke data change
-      if (onStrokeDataChange) {
-        onStrokeDataChange(newAllStrokes);
-      }
-      
-      setIsDrawing(false);
-      setCurrentStroke([]);
-      saveHistoryState();
-    }
+    panOriginRef.current = null;
+    endInput();
   };
   
   // Drawing helper functions
@@ -842,13 +1425,6 @@ const DrawingCanvas = ({
         ctx.lineWidth = penSize;
         ctx.globalCompositeOperation = 'source-over';
         break;
-        
-      case 'eraser':
-        ctx.strokeStyle = '#ffffff';
-        ctx.fillStyle = '#ffffff';
-        ctx.lineWidth = penSize * 2; // Eraser is typically larger
-        ctx.globalCompositeOperation = 'destination-out';
-        break;
     }
   };
   
@@ -867,33 +1443,115 @@ const DrawingCanvas = ({
   // Create stroke point helper
   const createStrokePoint = (x: number, y: number, penDown: boolean, pressure?: number): StrokePoint => {
     const now = Date.now();
+    const style = strokeStyleRef.current;
     return {
       x,
       y,
-      time: strokeStartTime > 0 ? now - strokeStartTime : 0,
+      time: strokeStartTimeRef.current > 0 ? now - strokeStartTimeRef.current : 0,
       pen_down: penDown,
       pressure: pressure || 1,
-      stroke_id: currentStrokeId
+      stroke_id: currentStrokeIdRef.current,
+      color: style.color,
+      size: style.size,
+      tool: style.tool,
+      layer: style.layer
+    };
+  };
+  
+  // Begin tracking a new stroke
+  const startStroke = () => {
+    currentStrokeIdRef.current = createStrokeId();
+    strokeStartTimeRef.current = Date.now();
+  };
+  
+  // Record a finished stroke as an undoable command
+  const commitStroke = (stroke: StrokePoint[]) => {
+    executeCommand({ type: 'add-stroke', removed: [], added: stroke });
+  };
+  
+  // Replace the canvas contents with the given strokes, or a saved history
+  const loadStrokes = (strokes: StrokePoint[], history?: StrokeHistory | null, objects: CanvasObject[] = []) => {
+    baseImageRef.current = null;
+    applyHistory(history ?? createHistory(strokes, objects));
+  };
+  
+  // Place the textarea overlay over the text box's position on screen
+  const getTextEditorStyle = (text: TextObject): React.CSSProperties => {
+    const canvas = canvasRef.current;
+    const viewport = viewportRef.current;
+    const screen = worldToScreen(viewport, text.x, text.y);
+    
+    return {
+      left: (canvas?.offsetLeft ?? 0) + screen.x,
+      top: (canvas?.offsetTop ?? 0) + screen.y,
+      color: text.color,
+      fontSize: text.fontSize * viewport.scale,
+      letterSpacing: text.letterSpacing * viewport.scale,
+      lineHeight: text.lineHeight
     };
   };
   
   // Handle tool changes
-  const handleToolChange = (tool: 'pen' | 'eraser' | 'stylus') => {
+  const handleToolChange = (tool: CanvasTool) => {
     setCurrentTool(tool);
+    
+    if (tool !== 'text') {
+      commitTextEdit();
+    }
+    
+    // Selection handles only make sense while the Shapes tool is active
+    if (tool !== 'shape' && selectedObjectIdRef.current) {
+      selectObject(null);
+      redrawCanvas();
+    }
+    
+    if (tool !== 'select' && selectedStrokeIdsRef.current.size > 0) {
+      selectStrokeIds(new Set());
+      redrawCanvas();
+    }
+  };
+  
+  // Handle shape palette changes
+  const handleShapeChange = (shape: ShapeType) => {
+    setShapeType(shape);
+    handleToolChange('shape');
+  };
+  
+  // Handle text option changes; they also apply to the text box being edited
+  const handleTextStyleChange = (changes: Partial<TextStyle>) => {
+    setTextStyle(prev => ({ ...prev, ...changes }));
+    updateEditingText(changes);
+  };
+  
+  const handleShapeFilledChange = (filled: boolean) => {
+    setShapeFilled(filled);
+    restyleSelectedObject({ fillColor: filled ? `${penColor}33` : null });
   };
   
   // Handle pen color change
   const handleColorChange = (color: string) => {
     setPenColor(color);
-    // Keep the current tool if it's stylus or pen
+    // Keep the current tool if it's stylus, pen, shapes or text
     if (currentTool === 'eraser') {
       setCurrentTool(isPenTabletDetected ? 'stylus' : 'pen');
     }
+    
+    updateEditingText({ color });
+    recolorSelectedStrokes(color);
+    
+    const selected = getSelectedObject();
+    if (selected && selected.kind === 'shape') {
+      restyleSelectedObject({
+        strokeColor: color,
+        fillColor: selected.fillColor ? `${color}33` : null
+      });
+    }
   };
   
   // Handle pen size change
   const handleSizeChange = (size: number) => {
     setPenSize(size);
+    restyleSelectedObject({ strokeWidth: size });
   };
 
   return (
@@ -934,29 +1592,86 @@ const DrawingCanvas = ({
           </Button>
           
           {/* Eraser Button */}
+          <EraserOptions
+            active={currentTool === 'eraser'}
+            mode={eraserMode}
+            onActivate={() => handleToolChange('eraser')}
+            onModeChange={setEraserMode}
+          />
+          
+          <Button
+            variant={isAnnotating ? 'secondary' : 'outline'}
+            size="icon"
+            onClick={() => setIsAnnotating(!isAnnotating)}
+            title={isAnnotating ? 'Writing on the annotation layer' : 'Annotate on a separate layer'}
+          >
+            <Highlighter className="h-5 w-5" />
+          </Button>
+          
+          <Button
+            variant={currentTool === 'select' ? 'secondary' : 'outline'}
+            size="icon"
+            onClick={() => handleToolChange('select')}
+            title="Select"
+          >
+            <LassoSelect className="h-5 w-5" />
+          </Button>
+          
+          <TextOptions
+            active={currentTool === 'text'}
+            style={{ ...textStyle, color: penColor }}
+            onActivate={() => handleToolChange('text')}
+            onStyleChange={handleTextStyleChange}
+          />
+          
+          <ShapePalette
+            active={currentTool === 'shape'}
+            shape={shapeType}
+            filled={shapeFilled}
+            onShapeChange={handleShapeChange}
+            onFilledChange={handleShapeFilledChange}
+          />
+          
+          <Separator orientation="vertical" className="h-8" />
+          
           <Button
-            variant={currentTool === 'eraser' ? 'secondary' : 'outline'}
+            variant={isPanMode ? 'secondary' : 'outline'}
             size="icon"
-            onClick={() => handleToolChange('eraser')}
-            title="Eraser"
+            onClick={() => setIsPanMode(!isPanMode)}
+            title="Pan"
           >
-            <Eraser className="h-5 w-5" />
+            <Hand className="h-5 w-5" />
           </Button>
           
           <Button
             variant="outline"
             size="icon"
-            title="Text Tool"
+            onClick={() => handleZoom(1 / 1.25)}
+            title="Zoom Out"
           >
-            <Type className="h-5 w-5" />
+            <ZoomOut className="h-5 w-5" />
           </Button>
           
+          <span className="text-sm text-gray-600 w-12 text-center">
+            {Math.round(zoomLevel * 100)}%
+          </span>
+          
           <Button
             variant="outline"
             size="icon"
-            title="Shapes"
+            onClick={() => handleZoom(1.25)}
+            title="Zoom In"
           >
-            <Shapes className="h-5 w-5" />
+            <ZoomIn className="h-5 w-5" />
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleFitToContent}
+            title="Fit to Content"
+          >
+            <Maximize className="h-5 w-5" />
           </Button>
           
           <Separator orientation="vertical" className="h-8" />
@@ -965,7 +1680,7 @@ const DrawingCanvas = ({
             variant="outline"
             size="icon"
             onClick={handleUndo}
-            disabled={historyIndex <= 0}
+            disabled={!undoAvailable}
             title="Undo"
           >
             <Undo2 className="h-5 w-5" />
@@ -975,7 +1690,7 @@ const DrawingCanvas = ({
             variant="outline"
             size="icon"
             onClick={handleRedo}
-            disabled={historyIndex >= history.length - 1}
+            disabled={!redoAvailable}
             title="Redo"
           >
             <Redo2 className="h-5 w-5" />
@@ -995,19 +1710,63 @@ const DrawingCanvas = ({
       </div>
       
       <div 
-        ref={canvasContainerRef}
         className="bg-white rounded-lg shadow-lg p-1 overflow-hidden canvas-container"
         style={{ height: '70vh' }}
       >
+        <div
+          ref={canvasContainerRef}
+          className="relative w-full h-full border border-gray-200 rounded-lg overflow-hidden"
+        >
+        <canvas
+          ref={backgroundCanvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
         <canvas
           ref={canvasRef}
-          className="w-full border border-gray-200 rounded-lg bg-white"
+          className={`absolute inset-0 w-full h-full ${isPanMode ? 'cursor-grab' : ''}`}
           style={{ touchAction: 'none' }} // Disable browser handling of touch events
           onMouseDown={startDrawing}
           onMouseMove={draw}
           onMouseUp={stopDrawing}
           onMouseOut={stopDrawing}
         />
+        <canvas
+          ref={annotationCanvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+        <canvas
+          ref={overlayCanvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+        
+        {currentTool === 'select' && (
+          <SelectionToolbar
+            mode={selectionMode}
+            selectedCount={selectedStrokeIds.length}
+            onModeChange={setSelectionMode}
+            onDuplicate={duplicateSelectedStrokes}
+            onDelete={deleteSelectedStrokes}
+          />
+        )}
+        
+        {/* Text box being edited */}
+        {editingText && (
+          <textarea
+            autoFocus
+            value={editingText.text}
+            onChange={(e) => updateEditingText({ text: e.target.value })}
+            onBlur={commitTextEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') commitTextEdit();
+            }}
+            rows={editingText.text.split('\n').length}
+            cols={Math.max(10, ...editingText.text.split('\n').map(line => line.length + 1))}
+            className="absolute font-dyslexic bg-transparent border border-dashed border-blue-400 outline-none resize-none overflow-hidden whitespace-pre p-0"
+            style={getTextEditorStyle(editingText)}
+            placeholder="Type here"
+          />
+        )}
+        </div>
       </div>
     </div>
   );
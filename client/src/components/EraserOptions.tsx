@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { EraserMode } from '@/lib/eraser';
+import { Eraser, Scissors } from 'lucide-react';
+
+interface EraserOptionsProps {
+  active: boolean;
+  mode: EraserMode;
+  onActivate: () => void;
+  onModeChange: (mode: EraserMode) => void;
+}
+
+const EraserOptions = ({ active, mode, onActivate, onModeChange }: EraserOptionsProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="icon"
+          onClick={onActivate}
+          title="Eraser"
+        >
+          <Eraser className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-3 space-y-2 font-dyslexic">
+        <Button
+          variant={mode === 'stroke' ? 'secondary' : 'ghost'}
+          size="sm"
+          className="w-full justify-start"
+          onClick={() => onModeChange('stroke')}
+        >
+          <Eraser className="mr-2 h-4 w-4" />
+          Erase whole strokes
+        </Button>
+
+        <Button
+          variant={mode === 'partial' ? 'secondary' : 'ghost'}
+          size="sm"
+          className="w-full justify-start"
+          onClick={() => onModeChange('partial')}
+        >
+          <Scissors className="mr-2 h-4 w-4" />
+          Erase part of a stroke
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default EraserOptions;
@@ -0,0 +1,149 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import type { Evaluation } from '@shared/ocr';
+
+interface EvaluationReportProps {
+  evaluation: Evaluation;
+  // Loss per epoch of the training run that was just evaluated
+  losses?: number[];
+}
+
+const MAX_MISTAKES = 8;
+
+const accuracyChartConfig = {
+  accuracy: { label: 'Accuracy', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const lossChartConfig = {
+  loss: { label: 'Loss', color: 'hsl(var(--accent))' }
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const showChar = (char: string) => (char === '' ? 'nothing' : char === ' ' ? 'space' : `'${char}'`);
+
+/**
+ * Results of evaluating the OCR model on held-out training images
+ */
+const EvaluationReport = ({ evaluation, losses }: EvaluationReportProps) => {
+  const mistakes = evaluation.confusion
+    .filter(entry => entry.expected !== entry.predicted)
+    .slice(0, MAX_MISTAKES);
+
+  // Confusion matrix restricted to the confusable letters
+  const letters = evaluation.confusablePairs.flatMap(({ pair }) => pair);
+  const countOf = (expected: string, predicted: string) =>
+    evaluation.confusion.find(entry => entry.expected === expected && entry.predicted === predicted)?.count || 0;
+
+  const perClassData = evaluation.perClass.map(entry => ({
+    char: entry.char === ' ' ? '␣' : entry.char,
+    accuracy: Math.round(entry.accuracy * 100),
+    total: entry.total
+  }));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Model Evaluation</CardTitle>
+        <CardDescription>
+          {evaluation.validationCount > 0
+            ? `Tested on ${evaluation.validationCount} held-out images the model was not trained on`
+            : 'Add at least 5 training images to hold some out for testing'}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div className="font-medium">Labels read exactly:</div>
+          <div>{formatPercent(evaluation.accuracy)}</div>
+
+          <div className="font-medium">Characters read correctly:</div>
+          <div>{formatPercent(evaluation.characterAccuracy)}</div>
+        </div>
+
+        {losses && losses.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Training loss per epoch</p>
+            <ChartContainer config={lossChartConfig} className="h-40 w-full aspect-auto">
+              <LineChart data={losses.map((loss, i) => ({ epoch: i + 1, loss }))}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="epoch" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="loss" type="monotone" stroke="var(--color-loss)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        )}
+
+        {perClassData.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Accuracy per character</p>
+            <ChartContainer config={accuracyChartConfig} className="h-48 w-full aspect-auto">
+              <BarChart data={perClassData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="char" tickLine={false} axisLine={false} interval={0} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        )}
+
+        <div>
+          <p className="text-sm font-medium mb-2">Easily confused letters</p>
+          <table className="text-sm text-center">
+            <thead>
+              <tr>
+                <th className="px-2 text-muted-foreground font-normal">written ↓ read →</th>
+                {letters.map(letter => <th key={letter} className="px-2">{letter}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {letters.map(expected => (
+                <tr key={expected}>
+                  <th className="px-2">{expected}</th>
+                  {letters.map(predicted => {
+                    const count = countOf(expected, predicted);
+                    return (
+                      <td
+                        key={predicted}
+                        className={`px-2 py-1 ${count > 0 && expected !== predicted ? 'bg-amber-200' : ''} ${expected === predicted ? 'font-medium' : 'text-muted-foreground'}`}
+                      >
+                        {count}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {mistakes.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Most common mistakes</p>
+            <ul className="text-sm space-y-1">
+              {mistakes.map(entry => (
+                <li key={`${entry.expected}${entry.predicted}`}>
+                  {showChar(entry.expected)} read as {showChar(entry.predicted)}
+                  <span className="text-muted-foreground"> × {entry.count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EvaluationReport;
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { History, RefreshCw, RotateCcw, Trash2, GitCompare } from 'lucide-react';
+import {
+  ocrPaths,
+  messageResponseSchema,
+  modelVersionsResponseSchema,
+  versionComparisonResponseSchema,
+  type ModelVersion,
+  type VersionComparison
+} from '@shared/ocr';
+import { ocrRequest } from '@/lib/ocrApi';
+
+type ModelKind = ModelVersion['kind'];
+
+interface ModelVersionHistoryProps {
+  // The history is reloaded whenever this changes, e.g. after training
+  refreshKey?: unknown;
+  onVersionActivated?: () => void;
+}
+
+const KIND_LABELS: Record<ModelKind, string> = {
+  character: 'Characters',
+  sequence: 'Words',
+  stroke: 'Strokes'
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const formatLoss = (value: number | null) =>
+  value === null ? '—' : value.toFixed(4);
+
+const formatChange = (value: number | null, format: (v: number) => string) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${format(value)}`;
+
+/**
+ * Saved checkpoints of the OCR models, with rollback to an earlier version
+ */
+const ModelVersionHistory = ({ refreshKey, onVersionActivated }: ModelVersionHistoryProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+
+  const fetchVersions = async () => {
+    setIsLoading(true);
+    try {
+      const { versions } = await ocrRequest('GET', ocrPaths.versions, modelVersionsResponseSchema);
+      setVersions(versions);
+    } catch (error) {
+      console.error('Error fetching model versions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load model versions',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [refreshKey]);
+
+  // Compare a version with the active version of the same model
+  const handleCompare = async (version: ModelVersion) => {
+    const active = versions.find(v => v.kind === version.kind && v.active);
+    if (!active) return;
+
+    try {
+      setComparison(await ocrRequest('GET', ocrPaths.compareVersions, versionComparisonResponseSchema, {
+        query: { a: active.id, b: version.id }
+      }));
+    } catch (error) {
+      console.error('Error comparing model versions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to compare model versions',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleActivate = async (version: ModelVersion) => {
+    try {
+      await ocrRequest('POST', ocrPaths.activateVersion, messageResponseSchema, { id: version.id });
+
+      toast({
+        title: 'Success',
+        description: `Rolled back to version ${version.number}`,
+      });
+
+      setComparison(null);
+      fetchVersions();
+      onVersionActivated?.();
+    } catch (error) {
+      console.error('Error activating model version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to activate model version',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async (version: ModelVersion) => {
+    try {
+      await ocrRequest('DELETE', ocrPaths.version, messageResponseSchema, { id: version.id });
+
+      if (comparison?.b.id === version.id) {
+        setComparison(null);
+      }
+      fetchVersions();
+    } catch (error) {
+      console.error('Error deleting model version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete model version',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2" />
+            Version History
+          </CardTitle>
+          <CardDescription>
+            Every training run is saved, so you can go back if one makes the model worse
+          </CardDescription>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchVersions}
+          disabled={isLoading}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {comparison && (
+          <div className="mb-4 rounded-lg border bg-slate-50 p-3 text-sm">
+            <p className="font-medium mb-2">
+              Version {comparison.b.number} compared to the active version {comparison.a.number}
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>Accuracy: {formatChange(comparison.accuracyChange, v => `${(v * 100).toFixed(1)}%`)}</div>
+              <div>Validation: {formatChange(comparison.validationAccuracyChange, v => `${(v * 100).toFixed(1)}%`)}</div>
+              <div>Loss: {formatChange(comparison.lossChange, v => v.toFixed(4))}</div>
+              <div>Samples: {formatChange(comparison.samplesChange, v => String(v))}</div>
+            </div>
+          </div>
+        )}
+
+        {versions.length > 0 ? (
+          <div className="max-h-[320px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Samples</TableHead>
+                  <TableHead>Accuracy</TableHead>
+                  <TableHead>Validation</TableHead>
+                  <TableHead>Loss</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      <span className="font-medium">v{version.number}</span>
+                      <span className="ml-2 text-muted-foreground">{KIND_LABELS[version.kind]}</span>
+                      {version.active && (
+                        <Badge variant="outline" className="ml-2 bg-green-50 text-green-700">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{version.samples}</TableCell>
+                    <TableCell>{formatPercent(version.accuracy)}</TableCell>
+                    <TableCell>{formatPercent(version.validationAccuracy)}</TableCell>
+                    <TableCell>{formatLoss(version.loss)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!version.active && (
+                        <>
+                          <Button variant="ghost" size="icon" title="Compare with active" onClick={() => handleCompare(version)}>
+                            <GitCompare className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Roll back to this version" onClick={() => handleActivate(version)}>
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Delete version" onClick={() => handleDelete(version)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="py-8 text-center text-muted-foreground">
+            {isLoading ? 'Loading versions...' : 'No saved versions yet. Train the model to create one.'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ModelVersionHistory;
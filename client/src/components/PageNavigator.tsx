@@ -0,0 +1,126 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Plus, Trash2, MoveLeft, MoveRight } from 'lucide-react';
+import type { NotePage } from '@shared/schema';
+
+interface PageNavigatorProps {
+  pages: NotePage[];
+  currentIndex: number;
+  onSelectPage: (index: number) => void;
+  onAddPage: () => void;
+  onDeletePage: (index: number) => void;
+  onMovePage: (index: number, direction: -1 | 1) => void;
+}
+
+const PageNavigator = ({
+  pages,
+  currentIndex,
+  onSelectPage,
+  onAddPage,
+  onDeletePage,
+  onMovePage
+}: PageNavigatorProps) => {
+  const isFirst = currentIndex === 0;
+  const isLast = currentIndex === pages.length - 1;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-3 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSelectPage(currentIndex - 1)}
+            disabled={isFirst}
+            title="Previous page"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+
+          <span className="font-dyslexic text-sm text-gray-700 min-w-[90px] text-center">
+            Page {currentIndex + 1} of {pages.length}
+          </span>
+
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSelectPage(currentIndex + 1)}
+            disabled={isLast}
+            title="Next page"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onMovePage(currentIndex, -1)}
+            disabled={isFirst}
+            title="Move page earlier"
+          >
+            <MoveLeft className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onMovePage(currentIndex, 1)}
+            disabled={isLast}
+            title="Move page later"
+          >
+            <MoveRight className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onDeletePage(currentIndex)}
+            disabled={pages.length <= 1}
+            title="Delete page"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onAddPage}
+            className="font-dyslexic"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Page
+          </Button>
+        </div>
+      </div>
+
+      {/* Page thumbnails */}
+      <div className="flex space-x-2 overflow-x-auto pb-1">
+        {pages.map((page, index) => (
+          <button
+            key={page.id}
+            type="button"
+            onClick={() => onSelectPage(index)}
+            className={`flex-shrink-0 w-24 h-16 rounded border-2 bg-slate-50 overflow-hidden relative ${
+              index === currentIndex ? 'border-primary' : 'border-gray-200 hover:border-gray-400'
+            }`}
+            title={`Page ${index + 1}`}
+          >
+            {page.preview ? (
+              <img
+                src={page.preview}
+                alt={`Page ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+            ) : null}
+            <span className="absolute bottom-0 right-1 text-xs text-gray-500 font-dyslexic">
+              {index + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PageNavigator;
@@ -0,0 +1,70 @@
+import { Button } from '@/components/ui/button';
+import { Lasso, SquareDashed, Copy, Trash2 } from 'lucide-react';
+
+interface SelectionToolbarProps {
+  mode: 'lasso' | 'rect';
+  selectedCount: number;
+  onModeChange: (mode: 'lasso' | 'rect') => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const SelectionToolbar = ({
+  mode,
+  selectedCount,
+  onModeChange,
+  onDuplicate,
+  onDelete
+}: SelectionToolbarProps) => {
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div className="absolute top-3 left-3 z-10 flex items-center space-x-1 bg-white/90 rounded-md shadow p-1">
+      <Button
+        variant={mode === 'lasso' ? 'secondary' : 'ghost'}
+        size="icon"
+        onClick={() => onModeChange('lasso')}
+        title="Lasso Select"
+      >
+        <Lasso className="h-4 w-4" />
+      </Button>
+
+      <Button
+        variant={mode === 'rect' ? 'secondary' : 'ghost'}
+        size="icon"
+        onClick={() => onModeChange('rect')}
+        title="Rectangle Select"
+      >
+        <SquareDashed className="h-4 w-4" />
+      </Button>
+
+      <span className="text-xs text-gray-600 font-dyslexic px-2">
+        {hasSelection
+          ? `${selectedCount} stroke${selectedCount === 1 ? '' : 's'} selected`
+          : 'Draw around strokes to select'}
+      </span>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onDuplicate}
+        disabled={!hasSelection}
+        title="Duplicate"
+      >
+        <Copy className="h-4 w-4" />
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onDelete}
+        disabled={!hasSelection}
+        title="Delete Selection"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { ShapeType } from '@/lib/canvasObjects';
+import {
+  Shapes,
+  Minus,
+  MoveUpRight,
+  Square,
+  Circle,
+  Star,
+  MessageSquare,
+  PaintBucket
+} from 'lucide-react';
+
+interface ShapePaletteProps {
+  active: boolean;
+  shape: ShapeType;
+  filled: boolean;
+  onShapeChange: (shape: ShapeType) => void;
+  onFilledChange: (filled: boolean) => void;
+}
+
+const shapes: { shape: ShapeType; label: string; icon: typeof Square }[] = [
+  { shape: 'line', label: 'Line', icon: Minus },
+  { shape: 'arrow', label: 'Arrow', icon: MoveUpRight },
+  { shape: 'rectangle', label: 'Rectangle', icon: Square },
+  { shape: 'ellipse', label: 'Ellipse', icon: Circle },
+  { shape: 'star', label: 'Star', icon: Star },
+  { shape: 'speech-bubble', label: 'Speech Bubble', icon: MessageSquare }
+];
+
+const ShapePalette = ({ active, shape, filled, onShapeChange, onFilledChange }: ShapePaletteProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="icon"
+          title="Shapes"
+        >
+          <Shapes className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-3">
+        <div className="grid grid-cols-3 gap-2">
+          {shapes.map(({ shape: type, label, icon: Icon }) => (
+            <Button
+              key={type}
+              variant={active && shape === type ? 'secondary' : 'ghost'}
+              size="icon"
+              onClick={() => onShapeChange(type)}
+              title={label}
+              aria-label={label}
+            >
+              <Icon className="h-5 w-5" />
+            </Button>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onFilledChange(!filled)}
+          className={cn('w-full mt-3 font-dyslexic', filled && 'bg-slate-100')}
+        >
+          <PaintBucket className="mr-2 h-4 w-4" />
+          {filled ? 'Filled' : 'Outline only'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ShapePalette;
@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import type { TextStyle } from '@/lib/canvasObjects';
+import { Type } from 'lucide-react';
+
+interface TextOptionsProps {
+  active: boolean;
+  style: TextStyle;
+  onActivate: () => void;
+  onStyleChange: (changes: Partial<TextStyle>) => void;
+}
+
+const fontSizes = [
+  { size: 16, label: 'S' },
+  { size: 24, label: 'M' },
+  { size: 32, label: 'L' },
+  { size: 48, label: 'XL' }
+];
+
+const TextOptions = ({ active, style, onActivate, onStyleChange }: TextOptionsProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="icon"
+          onClick={onActivate}
+          title="Text Tool"
+        >
+          <Type className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3 space-y-4 font-dyslexic">
+        <div>
+          <Label className="text-xs text-gray-600">Text size</Label>
+          <div className="flex space-x-2 mt-1">
+            {fontSizes.map(({ size, label }) => (
+              <Button
+                key={size}
+                variant={style.fontSize === size ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => onStyleChange({ fontSize: size })}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label className="text-xs text-gray-600">
+            Letter spacing: {style.letterSpacing}px
+          </Label>
+          <Slider
+            className="mt-2"
+            min={0}
+            max={10}
+            step={1}
+            value={[style.letterSpacing]}
+            onValueChange={([value]) => onStyleChange({ letterSpacing: value })}
+          />
+        </div>
+
+        <div>
+          <Label className="text-xs text-gray-600">
+            Line spacing: {style.lineHeight.toFixed(1)}
+          </Label>
+          <Slider
+            className="mt-2"
+            min={1}
+            max={2.5}
+            step={0.1}
+            value={[style.lineHeight]}
+            onValueChange={([value]) => onStyleChange({ lineHeight: value })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TextOptions;
@@ -5,22 +5,36 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Loader2, FileText, Edit } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { CanvasLayers, exportLayers } from '@/lib/layers';
+import { DEFAULT_VIEWPORT, Viewport } from '@/lib/viewport';
+import { RecognitionSnapshot, captureCorrection } from '@/lib/corrections';
+import type { StrokePoint } from '@shared/schema';
 
 interface TextRecognitionProps {
-  canvasElement: HTMLCanvasElement | null;
-  onTextRecognized?: (text: string) => void;
+  canvasLayers: CanvasLayers | null;
+  // The strokes the canvas shows and its current viewport, read when recognition
+  // runs, to find the handwriting of corrected words
+  strokes?: StrokePoint[];
+  getViewport?: () => Viewport;
+  onTextRecognized?: (text: string, snapshot?: RecognitionSnapshot) => void;
 }
 
-const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionProps) => {
+const TextRecognition = ({ canvasLayers, strokes = [], getViewport = () => DEFAULT_VIEWPORT, onTextRecognized }: TextRecognitionProps) => {
+  const { toast } = useToast();
   const [recognizedText, setRecognizedText] = useState('');
   const [formattedText, setFormattedText] = useState('');
   const [suggestions, setSuggestions] = useState<{ original: string; correction: string }[]>([]);
   const [isRecognizing, setIsRecognizing] = useState(false);
   const [recognitionProgress, setRecognitionProgress] = useState(0);
   const [activeTab, setActiveTab] = useState('handwritten');
+  const [includeBackground, setIncludeBackground] = useState(false);
+  const [snapshot, setSnapshot] = useState<RecognitionSnapshot | null>(null);
 
   const handleRecognizeText = async () => {
-    if (!canvasElement) return;
+    if (!canvasLayers) return;
     
     setIsRecognizing(true);
     setRecognitionProgress(0);
@@ -29,7 +43,10 @@ const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionPro
       // Pre-process indicator
       setRecognitionProgress(10);
       
-      const imageData = canvasElement.toDataURL('image/png');
+      // Page lines are left out by default so they aren't mistaken for strokes
+      const imageData = exportLayers(canvasLayers, { includeBackground });
+      // Word boxes are in the pixels of this image, shown at this viewport
+      const viewport = getViewport();
       
       // Recognition in progress
       setRecognitionProgress(30);
@@ -37,9 +54,11 @@ const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionPro
       const result = await recognizeText(imageData);
       
       // Update state with recognition results
+      const recognition = { imageData, words: result.words, strokes, viewport };
       setRecognizedText(result.text);
       setFormattedText(result.formattedText);
       setSuggestions(result.suggestions);
+      setSnapshot(recognition);
       
       // Set to computer font tab if we got good results
       if (result.formattedText && result.text.length > 5) {
@@ -47,7 +66,7 @@ const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionPro
       }
       
       if (onTextRecognized) {
-        onTextRecognized(result.formattedText || result.text);
+        onTextRecognized(result.formattedText || result.text, recognition);
       }
       
       setRecognitionProgress(100);
@@ -74,6 +93,20 @@ const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionPro
     if (onTextRecognized) {
       onTextRecognized(activeTab === 'computerfont' ? updatedFormatted : updatedText);
     }
+    
+    // Learn from the mistake: the handwriting of the word becomes a training sample
+    if (snapshot) {
+      captureCorrection(snapshot, { original, correction })
+        .then(count => {
+          if (count > 0) {
+            toast({
+              title: 'Correction saved',
+              description: `"${correction}" is queued for review on the Training page`
+            });
+          }
+        })
+        .catch(error => console.error('Error saving correction:', error));
+    }
   };
 
   return (
@@ -81,9 +114,17 @@ const TextRecognition = ({ canvasElement, onTextRecognized }: TextRecognitionPro
       <CardHeader className="pb-3">
         <div className="flex justify-between items-center">
           <CardTitle className="font-dyslexic text-lg">Text Recognition</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="ocr-include-background"
+              checked={includeBackground}
+              onCheckedChange={setIncludeBackground}
+            />
+            <Label htmlFor="ocr-include-background" className="text-sm">Include background</Label>
+          </div>
           <Button 
             onClick={handleRecognizeText} 
-            disabled={!canvasElement || isRecognizing}
+            disabled={!canvasLayers || isRecognizing}
             size="sm"
           >
             {isRecognizing ? (
@@ -0,0 +1,323 @@
+import type { CanvasObject, ShapeObject, TextObject } from '@shared/schema';
+import type { Rect } from './viewport';
+
+export type { CanvasObject, ShapeObject, TextObject };
+export type ShapeType = ShapeObject['shape'];
+export type TextStyle = Pick<TextObject, 'color' | 'fontSize' | 'letterSpacing' | 'lineHeight'>;
+
+// Same family as the app's `font-dyslexic` class
+export const TEXT_FONT_FAMILY = "'OpenDyslexic', sans-serif";
+
+// A resize handle, identified by its relative position on the object's box
+export interface ObjectHandle {
+  fx: 0 | 1;
+  fy: 0 | 1;
+  x: number;
+  y: number;
+}
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+export function createObjectId(): string {
+  return `object_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createShapeObject(
+  shape: ShapeType,
+  point: Vec,
+  style: { strokeColor: string; strokeWidth: number; fillColor?: string | null }
+): ShapeObject {
+  return {
+    id: createObjectId(),
+    kind: 'shape',
+    shape,
+    x: point.x,
+    y: point.y,
+    width: 0,
+    height: 0,
+    strokeColor: style.strokeColor,
+    strokeWidth: style.strokeWidth,
+    fillColor: style.fillColor ?? null
+  };
+}
+
+export function createTextObject(point: Vec, style: TextStyle): TextObject {
+  return {
+    id: createObjectId(),
+    kind: 'text',
+    x: point.x,
+    y: point.y,
+    width: 0,
+    height: 0,
+    text: '',
+    ...style
+  };
+}
+
+// Lines and arrows are defined by their end points rather than a box
+const isLinear = (object: CanvasObject): object is ShapeObject =>
+  object.kind === 'shape' && (object.shape === 'line' || object.shape === 'arrow');
+
+// Bounding box with positive width and height
+export function getObjectBounds(object: CanvasObject): Rect {
+  return {
+    left: Math.min(object.x, object.x + object.width),
+    top: Math.min(object.y, object.y + object.height),
+    right: Math.max(object.x, object.x + object.width),
+    bottom: Math.max(object.y, object.y + object.height)
+  };
+}
+
+function segmentDistance(p: Vec, a: Vec, b: Vec): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+export function hitTestObject(object: CanvasObject, point: Vec, tolerance: number): boolean {
+  if (isLinear(object)) {
+    const end = { x: object.x + object.width, y: object.y + object.height };
+    return segmentDistance(point, object, end) <= tolerance + object.strokeWidth / 2;
+  }
+
+  const bounds = getObjectBounds(object);
+  return (
+    point.x >= bounds.left - tolerance &&
+    point.x <= bounds.right + tolerance &&
+    point.y >= bounds.top - tolerance &&
+    point.y <= bounds.bottom + tolerance
+  );
+}
+
+// Topmost object under the point
+export function findObjectAt(objects: CanvasObject[], point: Vec, tolerance: number): CanvasObject | null {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    if (hitTestObject(objects[i], point, tolerance)) return objects[i];
+  }
+  return null;
+}
+
+export function getObjectHandles(object: CanvasObject): ObjectHandle[] {
+  // Text boxes size themselves to their text
+  if (object.kind === 'text') return [];
+
+  const corners: [0 | 1, 0 | 1][] = isLinear(object)
+    ? [[0, 0], [1, 1]]
+    : [[0, 0], [1, 0], [1, 1], [0, 1]];
+
+  return corners.map(([fx, fy]) => ({
+    fx,
+    fy,
+    x: object.x + fx * object.width,
+    y: object.y + fy * object.height
+  }));
+}
+
+export function findHandleAt(object: CanvasObject, point: Vec, radius: number): ObjectHandle | null {
+  return getObjectHandles(object).find(
+    handle => Math.hypot(handle.x - point.x, handle.y - point.y) <= radius
+  ) || null;
+}
+
+export function moveObject<T extends CanvasObject>(object: T, dx: number, dy: number): T {
+  return { ...object, x: object.x + dx, y: object.y + dy };
+}
+
+// Drag one handle to a new position, keeping the opposite one fixed
+export function resizeObject<T extends CanvasObject>(object: T, handle: ObjectHandle, point: Vec): T {
+  const right = object.x + object.width;
+  const bottom = object.y + object.height;
+
+  return {
+    ...object,
+    x: handle.fx === 0 ? point.x : object.x,
+    y: handle.fy === 0 ? point.y : object.y,
+    width: handle.fx === 0 ? right - point.x : point.x - object.x,
+    height: handle.fy === 0 ? bottom - point.y : point.y - object.y
+  };
+}
+
+function traceStar(ctx: CanvasRenderingContext2D, bounds: Rect) {
+  const cx = (bounds.left + bounds.right) / 2;
+  const cy = (bounds.top + bounds.bottom) / 2;
+  const rx = (bounds.right - bounds.left) / 2;
+  const ry = (bounds.bottom - bounds.top) / 2;
+
+  for (let i = 0; i < 10; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    const factor = i % 2 === 0 ? 1 : 0.4;
+    const x = cx + Math.cos(angle) * rx * factor;
+    const y = cy + Math.sin(angle) * ry * factor;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.closePath();
+}
+
+// Rounded box over the top 80% of the bounds with a tail in the bottom-left
+function traceSpeechBubble(ctx: CanvasRenderingContext2D, bounds: Rect) {
+  const width = bounds.right - bounds.left;
+  const bodyBottom = bounds.top + (bounds.bottom - bounds.top) * 0.8;
+  const radius = Math.min(12, width / 4, (bodyBottom - bounds.top) / 2);
+
+  ctx.moveTo(bounds.left + radius, bounds.top);
+  ctx.arcTo(bounds.right, bounds.top, bounds.right, bodyBottom, radius);
+  ctx.arcTo(bounds.right, bodyBottom, bounds.left, bodyBottom, radius);
+  ctx.lineTo(bounds.left + width * 0.4, bodyBottom);
+  ctx.lineTo(bounds.left + width * 0.15, bounds.bottom);
+  ctx.lineTo(bounds.left + width * 0.2, bodyBottom);
+  ctx.arcTo(bounds.left, bodyBottom, bounds.left, bounds.top, radius);
+  ctx.arcTo(bounds.left, bounds.top, bounds.right, bounds.top, radius);
+  ctx.closePath();
+}
+
+function drawShape(ctx: CanvasRenderingContext2D, shape: ShapeObject) {
+  const bounds = getObjectBounds(shape);
+  const end = { x: shape.x + shape.width, y: shape.y + shape.height };
+
+  ctx.save();
+  ctx.strokeStyle = shape.strokeColor;
+  ctx.lineWidth = shape.strokeWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalCompositeOperation = 'source-over';
+
+  ctx.beginPath();
+  switch (shape.shape) {
+    case 'line':
+      ctx.moveTo(shape.x, shape.y);
+      ctx.lineTo(end.x, end.y);
+      break;
+    case 'arrow': {
+      const angle = Math.atan2(end.y - shape.y, end.x - shape.x);
+      const headLength = Math.max(10, shape.strokeWidth * 4);
+      ctx.moveTo(shape.x, shape.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.moveTo(end.x - headLength * Math.cos(angle - Math.PI / 6), end.y - headLength * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(end.x, end.y);
+      ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 6), end.y - headLength * Math.sin(angle + Math.PI / 6));
+      break;
+    }
+    case 'rectangle':
+      ctx.rect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top);
+      break;
+    case 'ellipse':
+      ctx.ellipse(
+        (bounds.left + bounds.right) / 2,
+        (bounds.top + bounds.bottom) / 2,
+        (bounds.right - bounds.left) / 2,
+        (bounds.bottom - bounds.top) / 2,
+        0, 0, Math.PI * 2
+      );
+      break;
+    case 'star':
+      traceStar(ctx, bounds);
+      break;
+    case 'speech-bubble':
+      traceSpeechBubble(ctx, bounds);
+      break;
+  }
+
+  if (shape.fillColor && shape.shape !== 'line' && shape.shape !== 'arrow') {
+    ctx.fillStyle = shape.fillColor;
+    ctx.fill();
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+function setTextFont(ctx: CanvasRenderingContext2D, text: TextObject) {
+  ctx.font = `${text.fontSize}px ${TEXT_FONT_FAMILY}`;
+  ctx.textBaseline = 'top';
+}
+
+// Width of a line of text including the extra letter spacing
+function measureLine(ctx: CanvasRenderingContext2D, line: string, letterSpacing: number): number {
+  return ctx.measureText(line).width + Math.max(line.length - 1, 0) * letterSpacing;
+}
+
+// Size a text box to fit its text
+export function measureTextObject(ctx: CanvasRenderingContext2D, text: TextObject): TextObject {
+  ctx.save();
+  setTextFont(ctx, text);
+  const lines = text.text.split('\n');
+  const width = Math.max(...lines.map(line => measureLine(ctx, line, text.letterSpacing)));
+  ctx.restore();
+
+  return {
+    ...text,
+    width,
+    height: lines.length * text.fontSize * text.lineHeight
+  };
+}
+
+function drawText(ctx: CanvasRenderingContext2D, text: TextObject) {
+  ctx.save();
+  setTextFont(ctx, text);
+  ctx.fillStyle = text.color;
+  ctx.globalCompositeOperation = 'source-over';
+
+  text.text.split('\n').forEach((line, index) => {
+    const y = text.y + index * text.fontSize * text.lineHeight;
+
+    if (text.letterSpacing === 0) {
+      ctx.fillText(line, text.x, y);
+      return;
+    }
+
+    // Canvas letter spacing support varies, so place characters one by one
+    let x = text.x;
+    for (const char of line) {
+      ctx.fillText(char, x, y);
+      x += ctx.measureText(char).width + text.letterSpacing;
+    }
+  });
+
+  ctx.restore();
+}
+
+export function drawObject(ctx: CanvasRenderingContext2D, object: CanvasObject) {
+  switch (object.kind) {
+    case 'shape':
+      drawShape(ctx, object);
+      break;
+    case 'text':
+      drawText(ctx, object);
+      break;
+  }
+}
+
+export function renderObjects(ctx: CanvasRenderingContext2D, objects: CanvasObject[]) {
+  objects.forEach(object => drawObject(ctx, object));
+}
+
+// Selection outline and resize handles; `scale` keeps them a constant size on screen
+export function drawObjectSelection(ctx: CanvasRenderingContext2D, object: CanvasObject, scale: number) {
+  const bounds = getObjectBounds(object);
+  const handleSize = 8 / scale;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = '#2D9CDB';
+  ctx.lineWidth = 1 / scale;
+  ctx.setLineDash([4 / scale, 4 / scale]);
+
+  if (!isLinear(object)) {
+    ctx.strokeRect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top);
+  }
+
+  ctx.setLineDash([]);
+  ctx.fillStyle = '#ffffff';
+  getObjectHandles(object).forEach(handle => {
+    ctx.fillRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+  });
+  ctx.restore();
+}
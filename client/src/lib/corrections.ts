@@ -0,0 +1,142 @@
+import type { StrokePoint } from '@shared/schema';
+import type { RecognizedWordRegion } from './tesseract';
+import { Viewport, screenToWorld } from './viewport';
+import { selectStrokesInRect, getSelectedPoints } from './selection';
+import { uploadTrainingImage } from './ocrApi';
+
+// Corrections as training data: when the user fixes a word the recognizer got
+// wrong, the handwriting of that word is cut out of the note and stored as a
+// sample labelled with the fix. The server queues it for review on the
+// Training page, and the next training run uses it once accepted.
+
+// What a recognition run read: the image, where each word was in it, and the
+// viewport and strokes the image was drawn from
+export interface RecognitionSnapshot {
+  imageData: string;
+  words: RecognizedWordRegion[];
+  strokes: StrokePoint[];
+  viewport: Viewport;
+}
+
+export interface WordCorrection {
+  original: string;
+  correction: string;
+}
+
+// Pixels of paper kept around a word when cutting it out
+const CROP_PADDING = 6;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\w]/g, '');
+
+/**
+ * Words that were replaced going from one version of a text to another.
+ * Unchanged words are matched up (longest common subsequence) and each run of
+ * replaced words in between becomes one correction.
+ */
+export function findWordCorrections(before: string, after: string): WordCorrection[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = normalizeWord(a[i]) === normalizeWord(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const corrections: WordCorrection[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    // Pure insertions and deletions have no handwriting to learn from. Runs of
+    // the same length were fixed word for word.
+    if (removed.length > 0 && removed.length === added.length) {
+      removed.forEach((original, k) => corrections.push({ original, correction: added[k] }));
+    } else if (removed.length > 0 && added.length > 0) {
+      corrections.push({ original: removed.join(' '), correction: added.join(' ') });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && normalizeWord(a[i]) === normalizeWord(b[j])) {
+      flush();
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return corrections;
+}
+
+// Cut a region out of an image, on white
+async function cropImage(imageData: string, box: RecognizedWordRegion['box']): Promise<Blob> {
+  const image = new Image();
+  await new Promise((resolve, reject) => {
+    image.onload = resolve;
+    image.onerror = reject;
+    image.src = imageData;
+  });
+
+  const x = Math.max(0, box.x0 - CROP_PADDING);
+  const y = Math.max(0, box.y0 - CROP_PADDING);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(image.width, box.x1 + CROP_PADDING) - x;
+  canvas.height = Math.min(image.height, box.y1 + CROP_PADDING) - y;
+
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, x, y, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not crop image'))), 'image/png')
+  );
+}
+
+/**
+ * Store every occurrence of a corrected word in the snapshot as a training
+ * sample for review, resolving with how many were stored. Corrections that
+ * span several recognized words aren't captured.
+ */
+export async function captureCorrection(snapshot: RecognitionSnapshot, { original, correction }: WordCorrection): Promise<number> {
+  const target = normalizeWord(original);
+  const words = snapshot.words.filter(word => target !== '' && normalizeWord(word.text) === target);
+
+  for (const word of words) {
+    const image = await cropImage(snapshot.imageData, word.box);
+
+    // The strokes inside the word's box, in the canvas's world coordinates
+    const topLeft = screenToWorld(snapshot.viewport, word.box.x0, word.box.y0);
+    const bottomRight = screenToWorld(snapshot.viewport, word.box.x1, word.box.y1);
+    const ids = selectStrokesInRect(snapshot.strokes, {
+      left: topLeft.x,
+      top: topLeft.y,
+      right: bottomRight.x,
+      bottom: bottomRight.y
+    });
+    const strokes = getSelectedPoints(snapshot.strokes, ids);
+
+    await uploadTrainingImage(image, correction, {
+      filename: 'correction.png',
+      source: 'correction',
+      strokes: strokes.length > 0 ? strokes : undefined,
+      recognizedAs: word.text
+    });
+  }
+
+  return words.length;
+}
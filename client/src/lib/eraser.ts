@@ -0,0 +1,112 @@
+import type { StrokePoint } from '@shared/schema';
+import { createStrokeId, groupStrokes } from './strokes';
+
+export type EraserMode = 'stroke' | 'partial';
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+function segmentDistance(p: Vec, a: Vec, b: Vec): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function touchesStroke(stroke: StrokePoint[], center: Vec, radius: number): boolean {
+  if (stroke.length === 1) {
+    return Math.hypot(stroke[0].x - center.x, stroke[0].y - center.y) <= radius;
+  }
+
+  for (let i = 1; i < stroke.length; i++) {
+    if (segmentDistance(center, stroke[i - 1], stroke[i]) <= radius) return true;
+  }
+  return false;
+}
+
+// Insert points so no segment is longer than `spacing`, letting a split land
+// close to the eraser's edge
+function resample(stroke: StrokePoint[], spacing: number): StrokePoint[] {
+  const result: StrokePoint[] = [stroke[0]];
+
+  for (let i = 1; i < stroke.length; i++) {
+    const a = stroke[i - 1];
+    const b = stroke[i];
+    const steps = Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing);
+
+    for (let step = 1; step < steps; step++) {
+      const t = step / steps;
+      result.push({
+        ...a,
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        time: a.time + (b.time - a.time) * t,
+        pen_down: true
+      });
+    }
+    result.push(b);
+  }
+
+  return result;
+}
+
+// Split a stroke into the runs of points outside the eraser, each under a new id
+function splitStroke(stroke: StrokePoint[], center: Vec, radius: number): StrokePoint[] {
+  const fragments: StrokePoint[][] = [];
+  let current: StrokePoint[] = [];
+
+  resample(stroke, Math.max(radius / 2, 1)).forEach(point => {
+    if (Math.hypot(point.x - center.x, point.y - center.y) <= radius) {
+      if (current.length > 0) fragments.push(current);
+      current = [];
+    } else {
+      current.push(point);
+    }
+  });
+  if (current.length > 0) fragments.push(current);
+
+  return fragments
+    .filter(fragment => fragment.length > 1)
+    .flatMap(fragment => {
+      const id = createStrokeId();
+      return fragment.map((point, index) => ({
+        ...point,
+        stroke_id: id,
+        pen_down: index < fragment.length - 1
+      }));
+    });
+}
+
+/**
+ * Erase at a point. In 'stroke' mode every stroke the eraser touches is removed
+ * whole; in 'partial' mode touched strokes are cut where the eraser passes.
+ */
+export function eraseAt(points: StrokePoint[], center: Vec, radius: number, mode: EraserMode): StrokePoint[] {
+  let changed = false;
+
+  const result = groupStrokes(points).flatMap(stroke => {
+    // Strokes from the old pixel eraser are invisible, so they are never hit
+    if (stroke[0].tool === 'eraser' || !touchesStroke(stroke, center, radius)) return stroke;
+
+    changed = true;
+    return mode === 'stroke' ? [] : splitStroke(stroke, center, radius);
+  });
+
+  return changed ? result : points;
+}
+
+// The points removed from and added to `before` to get `after`, compared by stroke id
+export function diffStrokes(before: StrokePoint[], after: StrokePoint[]) {
+  const beforeIds = new Set(before.map(p => p.stroke_id));
+  const afterIds = new Set(after.map(p => p.stroke_id));
+
+  return {
+    removed: before.filter(p => !afterIds.has(p.stroke_id)),
+    added: after.filter(p => !beforeIds.has(p.stroke_id))
+  };
+}
@@ -0,0 +1,87 @@
+import type { CanvasObject, HistoryCommand, StrokeHistory, StrokePoint } from '@shared/schema';
+
+export type { HistoryCommand, StrokeHistory };
+
+// Maximum number of undoable commands kept; older ones are folded into the base
+export const MAX_HISTORY_COMMANDS = 100;
+
+export function createHistory(base: StrokePoint[] = [], baseObjects: CanvasObject[] = []): StrokeHistory {
+  return { base, baseObjects, commands: [], index: 0 };
+}
+
+// Apply a single command to a list of stroke points
+export function applyCommand(points: StrokePoint[], command: HistoryCommand): StrokePoint[] {
+  const removedIds = new Set(command.removed.map(p => p.stroke_id));
+  const remaining = removedIds.size > 0
+    ? points.filter(p => !removedIds.has(p.stroke_id))
+    : points;
+  return command.added.length > 0 ? [...remaining, ...command.added] : remaining;
+}
+
+// Apply a single command to a list of objects. Objects that are removed and
+// re-added with the same id are updated in place to keep their stacking order.
+export function applyObjectCommand(objects: CanvasObject[], command: HistoryCommand): CanvasObject[] {
+  const removed = command.removedObjects || [];
+  const added = command.addedObjects || [];
+  if (removed.length === 0 && added.length === 0) return objects;
+
+  const removedIds = new Set(removed.map(o => o.id));
+  const addedById = new Map(added.map(o => [o.id, o]));
+  const updated = objects.flatMap(o => {
+    if (!removedIds.has(o.id)) return [o];
+    const replacement = addedById.get(o.id);
+    addedById.delete(o.id);
+    return replacement ? [replacement] : [];
+  });
+  return [...updated, ...Array.from(addedById.values())];
+}
+
+// Replay the applied commands on top of the base strokes
+export function getHistoryStrokes(history: StrokeHistory): StrokePoint[] {
+  return history.commands
+    .slice(0, history.index)
+    .reduce(applyCommand, history.base);
+}
+
+// Replay the applied commands on top of the base objects
+export function getHistoryObjects(history: StrokeHistory): CanvasObject[] {
+  return history.commands
+    .slice(0, history.index)
+    .reduce(applyObjectCommand, history.baseObjects || []);
+}
+
+// Record a new command, discarding any redo steps and enforcing the size cap
+export function pushCommand(
+  history: StrokeHistory,
+  command: HistoryCommand,
+  maxCommands: number = MAX_HISTORY_COMMANDS
+): StrokeHistory {
+  let base = history.base;
+  let baseObjects = history.baseObjects || [];
+  let commands = [...history.commands.slice(0, history.index), command];
+
+  if (commands.length > maxCommands) {
+    const overflow = commands.slice(0, commands.length - maxCommands);
+    base = overflow.reduce(applyCommand, base);
+    baseObjects = overflow.reduce(applyObjectCommand, baseObjects);
+    commands = commands.slice(overflow.length);
+  }
+
+  return { base, baseObjects, commands, index: commands.length };
+}
+
+export function canUndo(history: StrokeHistory): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: StrokeHistory): boolean {
+  return history.index < history.commands.length;
+}
+
+export function undo(history: StrokeHistory): StrokeHistory {
+  return canUndo(history) ? { ...history, index: history.index - 1 } : history;
+}
+
+export function redo(history: StrokeHistory): StrokeHistory {
+  return canRedo(history) ? { ...history, index: history.index + 1 } : history;
+}
@@ -0,0 +1,42 @@
+// The stacked canvases that make up a drawing. Only the background layer is
+// opaque; ink and annotations are drawn on transparent layers above it.
+export interface CanvasLayers {
+  background: HTMLCanvasElement;
+  ink: HTMLCanvasElement;
+  annotation: HTMLCanvasElement;
+}
+
+export interface LayerExportOptions {
+  includeBackground?: boolean;
+  includeAnnotations?: boolean;
+}
+
+// Composite the layers onto white paper, e.g. for previews and OCR
+export function flattenLayers(
+  layers: CanvasLayers,
+  { includeBackground = true, includeAnnotations = true }: LayerExportOptions = {}
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = layers.ink.width;
+  canvas.height = layers.ink.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (includeBackground) {
+    ctx.drawImage(layers.background, 0, 0);
+  }
+  ctx.drawImage(layers.ink, 0, 0);
+  if (includeAnnotations) {
+    ctx.drawImage(layers.annotation, 0, 0);
+  }
+
+  return canvas;
+}
+
+export function exportLayers(layers: CanvasLayers, options: LayerExportOptions = {}): string {
+  return flattenLayers(layers, options).toDataURL('image/png');
+}
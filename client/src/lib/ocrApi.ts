@@ -0,0 +1,118 @@
+import type { z } from 'zod';
+import type { StrokePoint } from '@shared/schema';
+import {
+  ocrUrl,
+  ocrPaths,
+  uploadTrainingImageResponseSchema,
+  importDatasetResponseSchema,
+  type ImportDatasetRequest,
+  type OcrPath,
+  type TrainingSampleSource
+} from '@shared/ocr';
+import { apiRequest } from '@/lib/queryClient';
+import { ocrProfileHeaders } from '@/lib/ocrProfile';
+
+interface OcrRequestOptions {
+  id?: string;                      // Fills the :id in the path
+  query?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Call the OCR API as this browser's profile and parse the response with its
+ * schema from the shared contract
+ */
+export async function ocrRequest<T extends z.ZodTypeAny>(
+  method: string,
+  path: OcrPath,
+  responseSchema: T,
+  { id, query, body }: OcrRequestOptions = {}
+): Promise<z.infer<T>> {
+  const search = query ? `?${new URLSearchParams(query)}` : '';
+  const response = await apiRequest(method, ocrUrl(path, id) + search, body, ocrProfileHeaders());
+  return responseSchema.parse(await response.json());
+}
+
+interface UploadOptions {
+  filename?: string;
+  source?: TrainingSampleSource;
+  strokes?: StrokePoint[];   // The strokes of a drawn image
+  recognizedAs?: string;     // What the recognizer read, for corrections
+}
+
+/**
+ * Upload a labelled training image (a file or a canvas drawing)
+ */
+export async function uploadTrainingImage(image: Blob, label: string, { filename, source, strokes, recognizedAs }: UploadOptions = {}) {
+  const formData = new FormData();
+  if (filename) {
+    formData.append('image', image, filename);
+  } else {
+    formData.append('image', image);
+  }
+  formData.append('label', label);
+  if (source) formData.append('source', source);
+  if (strokes) formData.append('strokes', JSON.stringify(strokes));
+  if (recognizedAs) formData.append('recognizedAs', recognizedAs);
+
+  // Multipart, so not through apiRequest, which sends JSON
+  const response = await fetch(ocrUrl(ocrPaths.uploadTrainingImage), {
+    method: 'POST',
+    headers: ocrProfileHeaders(),
+    body: formData,
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return uploadTrainingImageResponseSchema.parse(await response.json());
+}
+
+/**
+ * Download the profile's training set as a zip archive
+ */
+export async function downloadTrainingSet(includeStrokes: boolean) {
+  const query = new URLSearchParams({ strokes: String(includeStrokes) });
+  const response = await fetch(`${ocrUrl(ocrPaths.exportDataset)}?${query}`, {
+    headers: ocrProfileHeaders(),
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+
+  // Save it under the name the server gave it
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'ocr-training-set.zip';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Import a training set archive: an export, a folder per label, a CSV
+ * manifest or EMNIST idx files
+ */
+export async function importTrainingSet(archive: File, { format, limit, transpose }: ImportDatasetRequest = {}) {
+  const formData = new FormData();
+  formData.append('archive', archive);
+  if (format) formData.append('format', format);
+  if (limit !== undefined) formData.append('limit', String(limit));
+  if (transpose) formData.append('transpose', transpose);
+
+  const response = await fetch(ocrUrl(ocrPaths.importDataset), {
+    method: 'POST',
+    headers: ocrProfileHeaders(),
+    body: formData,
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return importDatasetResponseSchema.parse(await response.json());
+}
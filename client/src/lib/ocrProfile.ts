@@ -0,0 +1,18 @@
+import { OCR_PROFILE_HEADER } from '@shared/ocr';
+
+const STORAGE_KEY = 'ocrProfileId';
+
+// This browser's OCR profile, created on first use so each learner trains
+// a model on their own handwriting
+export function getOcrProfileId(): string {
+  let id = localStorage.getItem(STORAGE_KEY);
+  if (!id) {
+    id = `profile_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(STORAGE_KEY, id);
+  }
+  return id;
+}
+
+export function ocrProfileHeaders(): Record<string, string> {
+  return { [OCR_PROFILE_HEADER]: getOcrProfileId() };
+}
@@ -0,0 +1,183 @@
+import type { StrokePoint } from '@shared/schema';
+import { createStrokeId } from './strokes';
+import { getStrokesBounds, Rect } from './viewport';
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+// Share of a stroke's points that must fall inside the lasso for it to be selected
+const LASSO_COVERAGE = 0.5;
+
+// Even-odd ray casting test
+export function pointInPolygon(point: Vec, polygon: Vec[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function selectStrokes(points: StrokePoint[], contains: (point: Vec) => boolean): Set<string> {
+  const counts = new Map<string, { inside: number; total: number }>();
+
+  points.forEach(point => {
+    if (!point.stroke_id) return;
+    const count = counts.get(point.stroke_id) || { inside: 0, total: 0 };
+    count.total++;
+    if (contains(point)) count.inside++;
+    counts.set(point.stroke_id, count);
+  });
+
+  const selected = new Set<string>();
+  counts.forEach((count, id) => {
+    if (count.inside / count.total >= LASSO_COVERAGE) selected.add(id);
+  });
+  return selected;
+}
+
+export function selectStrokesInLasso(points: StrokePoint[], lasso: Vec[]): Set<string> {
+  if (lasso.length < 3) return new Set();
+  return selectStrokes(points, point => pointInPolygon(point, lasso));
+}
+
+export function selectStrokesInRect(points: StrokePoint[], rect: Rect): Set<string> {
+  return selectStrokes(points, point =>
+    point.x >= rect.left && point.x <= rect.right && point.y >= rect.top && point.y <= rect.bottom
+  );
+}
+
+// Rect spanning two corner points
+export function rectFromPoints(a: Vec, b: Vec): Rect {
+  return {
+    left: Math.min(a.x, b.x),
+    top: Math.min(a.y, b.y),
+    right: Math.max(a.x, b.x),
+    bottom: Math.max(a.y, b.y)
+  };
+}
+
+export function getSelectedPoints(points: StrokePoint[], ids: Set<string>): StrokePoint[] {
+  return points.filter(point => point.stroke_id !== undefined && ids.has(point.stroke_id));
+}
+
+export function getSelectionBounds(points: StrokePoint[], ids: Set<string>): Rect | null {
+  return getStrokesBounds(getSelectedPoints(points, ids));
+}
+
+export function translatePoints(points: StrokePoint[], dx: number, dy: number): StrokePoint[] {
+  return points.map(point => ({ ...point, x: point.x + dx, y: point.y + dy }));
+}
+
+// Scale relative to a fixed origin
+export function scalePoints(points: StrokePoint[], origin: Vec, sx: number, sy: number): StrokePoint[] {
+  return points.map(point => ({
+    ...point,
+    x: origin.x + (point.x - origin.x) * sx,
+    y: origin.y + (point.y - origin.y) * sy
+  }));
+}
+
+export function rotatePoints(points: StrokePoint[], center: Vec, angle: number): StrokePoint[] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return points.map(point => {
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    return {
+      ...point,
+      x: center.x + dx * cos - dy * sin,
+      y: center.y + dx * sin + dy * cos
+    };
+  });
+}
+
+// Eraser strokes keep their tool, everything else takes the new color
+export function recolorPoints(points: StrokePoint[], color: string): StrokePoint[] {
+  return points.map(point => point.tool === 'eraser' ? point : { ...point, color });
+}
+
+// Copy strokes under new ids, offset so the copy is visible next to the original
+export function duplicatePoints(points: StrokePoint[], offset: number): StrokePoint[] {
+  const ids = new Map<string, string>();
+  return translatePoints(points, offset, offset).map(point => {
+    const id = point.stroke_id || '';
+    if (!ids.has(id)) ids.set(id, createStrokeId());
+    return { ...point, stroke_id: ids.get(id) };
+  });
+}
+
+export interface SelectionHandles {
+  corners: { fx: 0 | 1; fy: 0 | 1; x: number; y: number }[];
+  rotate: Vec;
+}
+
+// Corner handles for scaling and a handle above the box for rotating;
+// `scale` keeps them a constant size on screen
+export function getSelectionHandles(bounds: Rect, scale: number): SelectionHandles {
+  const corners: [0 | 1, 0 | 1][] = [[0, 0], [1, 0], [1, 1], [0, 1]];
+  return {
+    corners: corners.map(([fx, fy]) => ({
+      fx,
+      fy,
+      x: fx === 0 ? bounds.left : bounds.right,
+      y: fy === 0 ? bounds.top : bounds.bottom
+    })),
+    rotate: { x: (bounds.left + bounds.right) / 2, y: bounds.top - 24 / scale }
+  };
+}
+
+export function drawSelectionBounds(ctx: CanvasRenderingContext2D, bounds: Rect, scale: number) {
+  const handles = getSelectionHandles(bounds, scale);
+  const handleSize = 8 / scale;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = '#2D9CDB';
+  ctx.lineWidth = 1 / scale;
+  ctx.setLineDash([4 / scale, 4 / scale]);
+  ctx.strokeRect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top);
+
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.moveTo(handles.rotate.x, bounds.top);
+  ctx.lineTo(handles.rotate.x, handles.rotate.y);
+  ctx.stroke();
+
+  ctx.fillStyle = '#ffffff';
+  handles.corners.forEach(handle => {
+    ctx.fillRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+  });
+
+  ctx.beginPath();
+  ctx.arc(handles.rotate.x, handles.rotate.y, handleSize / 2, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Outline of a lasso while it is being drawn
+export function drawLasso(ctx: CanvasRenderingContext2D, path: Vec[], scale: number) {
+  if (path.length < 2) return;
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = '#2D9CDB';
+  ctx.fillStyle = 'rgba(45, 156, 219, 0.08)';
+  ctx.lineWidth = 1 / scale;
+  ctx.setLineDash([4 / scale, 4 / scale]);
+  ctx.beginPath();
+  ctx.moveTo(path[0].x, path[0].y);
+  path.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
@@ -0,0 +1,282 @@
+import type { StrokePoint } from '@shared/schema';
+
+export type RecognizedShapeType = 'line' | 'arrow' | 'triangle' | 'rectangle' | 'ellipse';
+
+export interface RecognizedShape {
+  type: RecognizedShapeType;
+  // Clean outline of the shape in drawing order
+  vertices: { x: number; y: number }[];
+}
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+// Strokes whose bounding box diagonal is shorter than this are left alone
+const MIN_SHAPE_SIZE = 20;
+
+// Mean deviation from the fitted ellipse, relative to its radii
+const ELLIPSE_TOLERANCE = 0.1;
+
+// Lines and rectangle edges within this many degrees of an axis are snapped to it
+const AXIS_SNAP_DEGREES = 10;
+
+const ELLIPSE_SEGMENTS = 48;
+
+const distance = (a: Vec, b: Vec) => Math.hypot(b.x - a.x, b.y - a.y);
+
+function pathLength(points: Vec[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+function getBounds(points: Vec[]) {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys)
+  };
+}
+
+// Perpendicular distance from p to the segment a-b
+function segmentDistance(p: Vec, a: Vec, b: Vec): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distance(p, a);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+// Ramer-Douglas-Peucker simplification; the surviving points are the corners
+function simplify(points: Vec[], epsilon: number): Vec[] {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDistance = 0;
+  let index = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = segmentDistance(points[i], first, last);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= epsilon) return [first, last];
+
+  const left = simplify(points.slice(0, index + 1), epsilon);
+  const right = simplify(points.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+}
+
+// Angle in degrees between the directions a->b and b->c (0 = straight on)
+function turnAngle(a: Vec, b: Vec, c: Vec): number {
+  const angle1 = Math.atan2(b.y - a.y, b.x - a.x);
+  const angle2 = Math.atan2(c.y - b.y, c.x - b.x);
+  let turn = Math.abs(angle2 - angle1) * 180 / Math.PI;
+  if (turn > 180) turn = 360 - turn;
+  return turn;
+}
+
+// Remove corners of a closed polygon that are really points along a straight edge,
+// e.g. where the pen started in the middle of a side
+function removeFlatCorners(corners: Vec[], minTurn: number = 30): Vec[] {
+  let result = [...corners];
+  let changed = true;
+
+  while (changed && result.length > 3) {
+    changed = false;
+    for (let i = 0; i < result.length; i++) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const next = result[(i + 1) % result.length];
+      if (turnAngle(prev, result[i], next) < minTurn) {
+        result.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+// Mean relative deviation of the points from the ellipse inscribed in their bounding box
+function ellipseError(points: Vec[], bounds: ReturnType<typeof getBounds>): number {
+  const cx = (bounds.left + bounds.right) / 2;
+  const cy = (bounds.top + bounds.bottom) / 2;
+  const rx = Math.max((bounds.right - bounds.left) / 2, 1);
+  const ry = Math.max((bounds.bottom - bounds.top) / 2, 1);
+
+  const total = points.reduce((sum, p) => {
+    const r = Math.hypot((p.x - cx) / rx, (p.y - cy) / ry);
+    return sum + Math.abs(r - 1);
+  }, 0);
+
+  return total / points.length;
+}
+
+function isNearAxis(a: Vec, b: Vec): boolean {
+  const angle = Math.abs(Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI) % 90;
+  return angle < AXIS_SNAP_DEGREES || angle > 90 - AXIS_SNAP_DEGREES;
+}
+
+function recognizeLine(start: Vec, end: Vec): RecognizedShape {
+  const angle = Math.abs(Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI);
+  const isHorizontal = angle < AXIS_SNAP_DEGREES || angle > 180 - AXIS_SNAP_DEGREES;
+  const isVertical = Math.abs(angle - 90) < AXIS_SNAP_DEGREES;
+
+  return {
+    type: 'line',
+    vertices: [
+      start,
+      {
+        x: isVertical ? start.x : end.x,
+        y: isHorizontal ? start.y : end.y
+      }
+    ]
+  };
+}
+
+// An arrow drawn in one stroke: a long shaft followed by short barbs that point back along it
+function recognizeArrow(corners: Vec[]): RecognizedShape | null {
+  if (corners.length < 3) return null;
+
+  const [tail, tip, ...head] = corners;
+  const shaftLength = distance(tail, tip);
+  if (shaftLength === 0) return null;
+
+  const back = { x: (tail.x - tip.x) / shaftLength, y: (tail.y - tip.y) / shaftLength };
+  const barbs = head.filter(p => distance(p, tip) > shaftLength * 0.05);
+  if (barbs.length === 0) return null;
+
+  for (const barb of barbs) {
+    const length = distance(barb, tip);
+    if (length > shaftLength * 0.6) return null;
+
+    // Barbs must lie behind the tip, within 75 degrees of the shaft
+    const cos = ((barb.x - tip.x) * back.x + (barb.y - tip.y) * back.y) / length;
+    if (cos < Math.cos(75 * Math.PI / 180)) return null;
+  }
+
+  const headLength = Math.min(
+    barbs.reduce((sum, barb) => sum + distance(barb, tip), 0) / barbs.length,
+    shaftLength * 0.4
+  );
+  const angle = Math.atan2(back.y, back.x);
+  const spread = Math.PI / 6;
+  const barbAt = (offset: number) => ({
+    x: tip.x + Math.cos(angle + offset) * headLength,
+    y: tip.y + Math.sin(angle + offset) * headLength
+  });
+
+  return {
+    type: 'arrow',
+    vertices: [tail, tip, barbAt(spread), tip, barbAt(-spread)]
+  };
+}
+
+function recognizeRectangle(corners: Vec[], bounds: ReturnType<typeof getBounds>): RecognizedShape {
+  const axisAligned = corners.every((corner, i) => isNearAxis(corner, corners[(i + 1) % corners.length]));
+
+  const vertices = axisAligned
+    ? [
+        { x: bounds.left, y: bounds.top },
+        { x: bounds.right, y: bounds.top },
+        { x: bounds.right, y: bounds.bottom },
+        { x: bounds.left, y: bounds.bottom }
+      ]
+    : corners;
+
+  return { type: 'rectangle', vertices: [...vertices, vertices[0]] };
+}
+
+function createEllipse(bounds: ReturnType<typeof getBounds>): RecognizedShape {
+  const cx = (bounds.left + bounds.right) / 2;
+  const cy = (bounds.top + bounds.bottom) / 2;
+  let rx = (bounds.right - bounds.left) / 2;
+  let ry = (bounds.bottom - bounds.top) / 2;
+
+  // Nearly round ellipses become circles
+  if (Math.abs(rx - ry) / Math.max(rx, ry) < 0.15) {
+    rx = ry = (rx + ry) / 2;
+  }
+
+  const vertices: Vec[] = [];
+  for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+    const theta = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+    vertices.push({ x: cx + Math.cos(theta) * rx, y: cy + Math.sin(theta) * ry });
+  }
+
+  return { type: 'ellipse', vertices };
+}
+
+/**
+ * Recognize a freehand stroke as a line, arrow, triangle, rectangle or ellipse.
+ * Returns null when the stroke does not look like any of them.
+ */
+export function recognizeShape(stroke: StrokePoint[]): RecognizedShape | null {
+  const points: Vec[] = stroke.map(p => ({ x: p.x, y: p.y }));
+  if (points.length < 2) return null;
+
+  const bounds = getBounds(points);
+  const diagonal = Math.hypot(bounds.right - bounds.left, bounds.bottom - bounds.top);
+  if (diagonal < MIN_SHAPE_SIZE) return null;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+  const length = pathLength(points);
+  const corners = simplify(points, Math.max(4, diagonal * 0.06));
+
+  // Closed path: the pen finished near where it started
+  const isClosed = distance(start, end) < Math.max(MIN_SHAPE_SIZE, length * 0.15);
+
+  if (!isClosed) {
+    if (corners.length === 2) return recognizeLine(start, end);
+    return recognizeArrow(corners);
+  }
+
+  if (ellipseError(points, bounds) < ELLIPSE_TOLERANCE) {
+    return createEllipse(bounds);
+  }
+
+  const polygon = removeFlatCorners(corners.slice(0, -1));
+  if (polygon.length === 3) {
+    return { type: 'triangle', vertices: [...polygon, polygon[0]] };
+  }
+  if (polygon.length === 4) {
+    return recognizeRectangle(polygon, bounds);
+  }
+
+  return null;
+}
+
+/**
+ * Turn a recognized shape into stroke points that replace the original stroke,
+ * keeping its style and timing.
+ */
+export function shapeToStroke(shape: RecognizedShape, original: StrokePoint[], strokeId: string): StrokePoint[] {
+  const template = original[0];
+  const startTime = template.time;
+  const endTime = original[original.length - 1].time;
+  const last = shape.vertices.length - 1;
+
+  return shape.vertices.map((vertex, i) => ({
+    ...template,
+    x: vertex.x,
+    y: vertex.y,
+    time: last > 0 ? startTime + ((endTime - startTime) * i) / last : startTime,
+    pen_down: i < last,
+    stroke_id: strokeId
+  }));
+}
@@ -0,0 +1,83 @@
+import type { StrokePoint } from '@shared/schema';
+
+export type { StrokePoint };
+
+// Default style used for points recorded before colors and sizes were stored
+const DEFAULT_COLOR = '#000000';
+const DEFAULT_SIZE = 2;
+
+export function createStrokeId(): string {
+  return `stroke_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Split a flat list of points into strokes, keeping their drawing order
+export function groupStrokes(points: StrokePoint[]): StrokePoint[][] {
+  const strokes: StrokePoint[][] = [];
+  const byId = new Map<string, StrokePoint[]>();
+
+  points.forEach((point, index) => {
+    // Points without an id are treated as belonging to the previous point's stroke
+    const id = point.stroke_id ?? (index > 0 ? points[index - 1].stroke_id ?? '' : '');
+    let stroke = byId.get(id);
+    if (!stroke) {
+      stroke = [];
+      byId.set(id, stroke);
+      strokes.push(stroke);
+    }
+    stroke.push(point);
+  });
+
+  return strokes;
+}
+
+// Line width for a point, scaled by pressure when drawn with a stylus
+export function getPointWidth(point: StrokePoint): number {
+  const size = point.size ?? DEFAULT_SIZE;
+  if (point.tool === 'stylus') {
+    const pressure = point.pressure ?? 1;
+    return size * (0.5 + pressure * 1.5);
+  }
+  if (point.tool === 'eraser') {
+    return size * 2;
+  }
+  return size;
+}
+
+// Draw a single stroke with the style stored on its points
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: StrokePoint[]) {
+  if (stroke.length === 0) return;
+
+  const first = stroke[0];
+  const color = first.color ?? DEFAULT_COLOR;
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.globalCompositeOperation = first.tool === 'eraser' ? 'destination-out' : 'source-over';
+
+  if (stroke.length === 1 || stroke.every(p => p.x === first.x && p.y === first.y)) {
+    // A tap without movement is drawn as a dot
+    ctx.beginPath();
+    ctx.arc(first.x, first.y, getPointWidth(first) / 2, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    for (let i = 1; i < stroke.length; i++) {
+      const from = stroke[i - 1];
+      const to = stroke[i];
+      ctx.beginPath();
+      ctx.lineWidth = getPointWidth(to);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+}
+
+// Draw every stroke in a flat list of points
+export function renderStrokes(ctx: CanvasRenderingContext2D, points: StrokePoint[]) {
+  groupStrokes(points).forEach(stroke => drawStroke(ctx, stroke));
+}
@@ -1,7 +1,14 @@
 import { createWorker } from 'tesseract.js';
 
+// A recognized word and where it is in the image, in image pixels
+export interface RecognizedWordRegion {
+  text: string;
+  box: { x0: number; y0: number; x1: number; y1: number };
+}
+
 interface RecognitionResult {
   text: string;
+  words: RecognizedWordRegion[];
   suggestions: Array<{
     original: string;
     correction: string;
@@ -79,12 +86,18 @@ export async function recognizeText(
     // Configure Tesseract with better settings for handwriting
     const worker = await createWorker('eng');
     
-    // Recognize text from the processed image
-    const result = await worker.recognize(processedImage);
+    // Recognize text from the processed image, with the layout blocks that
+    // hold each word's position
+    const result = await worker.recognize(processedImage, {}, { blocks: true });
     await worker.terminate();
 
     // Get the recognized text
     const text = result.data.text;
+    const wordRegions = (result.data.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words)
+      .map(word => ({ text: word.text, box: word.bbox }));
     
     // Format text to look like computer font
     const formattedText = formatToStandardFont(text);
@@ -158,6 +171,7 @@ export async function recognizeText(
 
     return {
       text,
+      words: wordRegions,
       suggestions,
       formattedText
     };
@@ -165,6 +179,7 @@ export async function recognizeText(
     console.error('Text recognition error:', error);
     return {
       text: '',
+      words: [],
       suggestions: [],
       formattedText: ''
     };
@@ -0,0 +1,48 @@
+import {
+  ocrPaths,
+  ocrUrl,
+  trainingJobSchema,
+  trainingJobResponseSchema,
+  type TrainingJob
+} from '@shared/ocr';
+import { ocrRequest } from '@/lib/ocrApi';
+
+export type { EpochProgress, TrainingJob } from '@shared/ocr';
+
+export const isJobFinished = (job: TrainingJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+// Share of the job's epochs that are done, 0-100
+export function jobPercent(job: TrainingJob): number {
+  const latest = job.progress[job.progress.length - 1];
+  if (job.status === 'completed') return 100;
+  return latest ? Math.round((latest.epoch / latest.epochs) * 100) : 0;
+}
+
+/**
+ * Follow a training job's progress over Server-Sent Events, resolving with the
+ * finished job
+ */
+export function watchTrainingJob(jobId: string, onUpdate: (job: TrainingJob) => void): Promise<TrainingJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(ocrUrl(ocrPaths.jobEvents, jobId));
+
+    source.onmessage = (event) => {
+      const job = trainingJobSchema.parse(JSON.parse(event.data));
+      onUpdate(job);
+      if (isJobFinished(job)) {
+        source.close();
+        resolve(job);
+      }
+    };
+
+    source.onerror = () => {
+      source.close();
+      reject(new Error('Lost connection to training job'));
+    };
+  });
+}
+
+export async function cancelTrainingJob(jobId: string) {
+  await ocrRequest('POST', ocrPaths.cancelJob, trainingJobResponseSchema, { id: jobId });
+}
@@ -38,14 +38,3 @@ export function getCanvasPreview(canvas: HTMLCanvasElement): string {
   // Return as base64 data URL
   return tempCanvas.toDataURL('image/png');
 }
-
-// Drawing history type for undo/redo functionality
-export interface HistoryItem {
-  imageData: ImageData;
-}
-
-export function createEmptyImageData(canvas: HTMLCanvasElement): ImageData {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Canvas context not available');
-  return ctx.createImageData(canvas.width, canvas.height);
-}
@@ -0,0 +1,106 @@
+import type { StrokePoint } from '@shared/schema';
+
+// Maps world coordinates (where strokes are stored) to screen pixels:
+// screen = (world - origin) * scale
+export interface Viewport {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 8;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+export function screenToWorld(viewport: Viewport, screenX: number, screenY: number) {
+  return {
+    x: screenX / viewport.scale + viewport.x,
+    y: screenY / viewport.scale + viewport.y
+  };
+}
+
+export function worldToScreen(viewport: Viewport, worldX: number, worldY: number) {
+  return {
+    x: (worldX - viewport.x) * viewport.scale,
+    y: (worldY - viewport.y) * viewport.scale
+  };
+}
+
+// Apply the viewport to a 2D context so drawing happens in world coordinates
+export function applyViewportTransform(ctx: CanvasRenderingContext2D, viewport: Viewport) {
+  ctx.setTransform(
+    viewport.scale, 0,
+    0, viewport.scale,
+    -viewport.x * viewport.scale, -viewport.y * viewport.scale
+  );
+}
+
+// Zoom by a factor while keeping the given screen point fixed
+export function zoomAt(viewport: Viewport, screenX: number, screenY: number, factor: number): Viewport {
+  const scale = clampScale(viewport.scale * factor);
+  const anchor = screenToWorld(viewport, screenX, screenY);
+  return {
+    x: anchor.x - screenX / scale,
+    y: anchor.y - screenY / scale,
+    scale
+  };
+}
+
+// Pan by a distance in screen pixels
+export function panBy(viewport: Viewport, dx: number, dy: number): Viewport {
+  return {
+    ...viewport,
+    x: viewport.x - dx / viewport.scale,
+    y: viewport.y - dy / viewport.scale
+  };
+}
+
+// The part of the world visible on a screen of the given size
+export function getVisibleRect(viewport: Viewport, width: number, height: number): Rect {
+  return {
+    left: viewport.x,
+    top: viewport.y,
+    right: viewport.x + width / viewport.scale,
+    bottom: viewport.y + height / viewport.scale
+  };
+}
+
+export function getStrokesBounds(points: StrokePoint[]): Rect | null {
+  if (points.length === 0) return null;
+
+  return points.reduce<Rect>((bounds, point) => ({
+    left: Math.min(bounds.left, point.x),
+    top: Math.min(bounds.top, point.y),
+    right: Math.max(bounds.right, point.x),
+    bottom: Math.max(bounds.bottom, point.y)
+  }), { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity });
+}
+
+// Viewport that shows the whole rect centred on a screen of the given size
+export function fitToRect(bounds: Rect, width: number, height: number, padding: number = 40): Viewport {
+  const contentWidth = Math.max(bounds.right - bounds.left, 1);
+  const contentHeight = Math.max(bounds.bottom - bounds.top, 1);
+  const scale = clampScale(Math.min(
+    (width - padding * 2) / contentWidth,
+    (height - padding * 2) / contentHeight,
+    1
+  ));
+
+  return {
+    x: (bounds.left + bounds.right) / 2 - width / (2 * scale),
+    y: (bounds.top + bounds.bottom) / 2 - height / (2 * scale),
+    scale
+  };
+}
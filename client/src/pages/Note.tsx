@@ -2,11 +2,13 @@ import { useEffect, useState, useRef } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import DrawingCanvas from '@/components/DrawingCanvas';
 import TextRecognition from '@/components/TextRecognition';
 import CustomOcrTrainer from '@/components/CustomOcrTrainer';
+import PageNavigator from '@/components/PageNavigator';
 import { 
   ArrowLeft, Save, Share, BrainCircuit, TextCursorInput,
   PencilLine, Edit3, LayoutTemplate, Settings
@@ -15,7 +17,11 @@ import { apiRequest } from '@/lib/queryClient';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { getCanvasPreview } from '@/lib/utils';
-import type { Note as NoteType } from '@shared/schema';
+import { CanvasLayers, flattenLayers } from '@/lib/layers';
+import { DEFAULT_VIEWPORT, Viewport } from '@/lib/viewport';
+import { RecognitionSnapshot, findWordCorrections, captureCorrection } from '@/lib/corrections';
+import type { Note as NoteType, NotePage, StrokePoint, StrokeHistory, CanvasObject } from '@shared/schema';
+import { createNotePage, getNotePages, getPagesText } from '@shared/pages';
 import { 
   Select,
   SelectContent,
@@ -35,20 +41,32 @@ const Note = () => {
   // State for note data
   const [title, setTitle] = useState('Untitled Note');
   const [content, setContent] = useState('');
-  const [preview, setPreview] = useState('');
-  const [recognizedText, setRecognizedText] = useState('');
   const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
 
   // Canvas references and state
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layersRef = useRef<CanvasLayers | null>(null);
+  // Also kept in state so the panels that take the layers get them once the canvas is ready
+  const [canvasLayers, setCanvasLayers] = useState<CanvasLayers | null>(null);
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
   const [activeMode, setActiveMode] = useState<'free' | 'notebook' | 'training'>('free');
 
   // Added settings for different modes
-  const [autoCorrectShapes, setAutoCorrectShapes] = useState(true);
+  const [autoCorrectShapes, setAutoCorrectShapes] = useState(false);
   const [instantCorrection, setInstantCorrection] = useState(true);
   const [lineSpacing, setLineSpacing] = useState<'single' | 'wide' | 'college'>('single');
   const [backgroundStyle, setBackgroundStyle] = useState<'blank' | 'lined' | 'graph'>('lined');
-  const [strokeData, setStrokeData] = useState<StrokePoint[]>([]);
+
+  // Pages of the note; each page has its own strokes, history and recognized text
+  const [pages, setPages] = useState<NotePage[]>(() => [createNotePage()]);
+  const [currentPageIndex, setCurrentPageIndex] = useState(0);
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+  const currentPage = pages[currentPageIndex] || pages[0];
+
+  // Last recognition of each page, to find the handwriting of words the user corrects
+  const recognitionsRef = useRef(new Map<string, RecognitionSnapshot>());
+  // Recognized text when the user started editing it
+  const editStartTextRef = useRef('');
 
   // Fetch note data if editing an existing note
   const {
@@ -56,59 +74,173 @@ const Note = () => {
     isLoading,
     error
   } = useQuery<NoteType>({
-    queryKey: id ? [`/api/notes/${id}`] : null,
+    queryKey: [`/api/notes/${id}`],
     enabled: !!id,
   });
 
+  // Raster content of notes saved before strokes were recorded
+  const legacyContent = noteData && !noteData.pages?.length && !noteData.strokes?.length
+    ? noteData.content
+    : undefined;
+
   // Effect to set initial data from loaded note
   useEffect(() => {
     if (noteData) {
       setTitle(noteData.title);
       setContent(noteData.content);
-      setRecognizedText(noteData.recognizedText || '');
+
+      const loadedPages = getNotePages(noteData);
+      setPages(loadedPages);
+      setCurrentPageIndex(index => Math.min(index, loadedPages.length - 1));
     }
   }, [noteData]);
 
+  // Update a single page by id
+  const updatePage = (pageId: string, changes: Partial<NotePage>) => {
+    setPages(prev => prev.map(page => page.id === pageId ? { ...page, ...changes } : page));
+  };
+
   // Handle canvas ready event
-  const handleCanvasReady = (canvas: HTMLCanvasElement) => {
-    canvasRef.current = canvas;
+  const handleCanvasReady = (_canvas: HTMLCanvasElement, layers: CanvasLayers) => {
+    layersRef.current = layers;
+    setCanvasLayers(layers);
+    // A newly mounted canvas starts unzoomed
+    viewportRef.current = DEFAULT_VIEWPORT;
+  };
+
+  const handleViewportChange = (viewport: Viewport) => {
+    viewportRef.current = viewport;
   };
 
   // Handle canvas content change
-  const handleContentChange = (newContent: string) => {
-    setContent(newContent);
+  const handleContentChange = (pageId: string, newContent: string) => {
+    // The note's own content mirrors the first page
+    if (pagesRef.current[0]?.id === pageId) {
+      setContent(newContent);
+    }
 
-    // Generate preview when content changes
-    if (canvasRef.current) {
-      setPreview(getCanvasPreview(canvasRef.current));
+    // Generate page thumbnail when content changes
+    if (layersRef.current) {
+      updatePage(pageId, { preview: getCanvasPreview(flattenLayers(layersRef.current)) });
     }
   };
-    const handleStrokeDataChange = (strokes: StrokePoint[]) => {
-        setStrokeData(strokes);
-    };
+
+  const handleStrokeDataChange = (pageId: string, strokes: StrokePoint[]) => {
+    updatePage(pageId, { strokes });
+  };
+  
+  // Handle vector object changes (shapes)
+  const handleObjectsChange = (pageId: string, objects: CanvasObject[]) => {
+    updatePage(pageId, { objects });
+  };
+
+  const handleHistoryChange = (pageId: string, history: StrokeHistory) => {
+    updatePage(pageId, { history });
+  };
 
   // Handle recognized text from TextRecognition component
-  const handleTextRecognized = (text: string) => {
-    setRecognizedText(text);
+  const handleTextRecognized = (text: string, snapshot?: RecognitionSnapshot) => {
+    updatePage(currentPage.id, { recognizedText: text });
+    if (snapshot) {
+      recognitionsRef.current.set(currentPage.id, snapshot);
+    }
+  };
+
+  // Words the user fixed in the recognized text become training samples
+  const handleRecognizedTextEdited = async (pageId: string, text: string) => {
+    const snapshot = recognitionsRef.current.get(pageId);
+    if (!snapshot) return;
+
+    try {
+      let captured = 0;
+      for (const correction of findWordCorrections(editStartTextRef.current, text)) {
+        captured += await captureCorrection(snapshot, correction);
+      }
+
+      if (captured > 0) {
+        toast({
+          title: 'Corrections saved',
+          description: `${captured} corrected word${captured === 1 ? '' : 's'} queued for review on the Training page`,
+        });
+      }
+    } catch (error) {
+      console.error('Error saving corrections:', error);
+    }
+  };
+
+  // Report failures of page operations on saved notes
+  const handlePageRequestError = () => {
+    toast({
+      title: 'Error updating pages',
+      description: 'Your change is kept locally and will be stored on the next save.',
+      variant: 'destructive',
+    });
+  };
+
+  // Add a blank page after the current one
+  const handleAddPage = () => {
+    const page = createNotePage();
+    const index = currentPageIndex + 1;
+
+    setPages(prev => [...prev.slice(0, index), page, ...prev.slice(index)]);
+    setCurrentPageIndex(index);
+
+    if (id) {
+      apiRequest('POST', `/api/notes/${id}/pages`, { page, index }).catch(handlePageRequestError);
+    }
+  };
+
+  // Delete a page, keeping at least one
+  const handleDeletePage = (index: number) => {
+    if (pages.length <= 1) return;
+
+    const page = pages[index];
+    setPages(prev => prev.filter(existing => existing.id !== page.id));
+    setCurrentPageIndex(current => Math.min(current > index ? current - 1 : current, pages.length - 2));
+
+    if (id) {
+      apiRequest('DELETE', `/api/notes/${id}/pages/${page.id}`).catch(handlePageRequestError);
+    }
+  };
+
+  // Move a page one position earlier or later
+  const handleMovePage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= pages.length) return;
+
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPages(reordered);
+    setCurrentPageIndex(target);
+
+    if (id) {
+      apiRequest('PUT', `/api/notes/${id}/pages/order`, {
+        pageIds: reordered.map(page => page.id)
+      }).catch(handlePageRequestError);
+    }
   };
 
   // Save mutation
   const saveMutation = useMutation({
     mutationFn: async () => {
-      const noteData = {
+      // The note-level fields describe the first page so lists and search keep working
+      const payload = {
         title,
         content,
-        preview,
-        recognizedText,
+        preview: pages[0].preview || '',
+        recognizedText: getPagesText(pages),
+        strokes: pages[0].strokes,
+        history: pages[0].history,
+        pages,
         isFavorite: noteData?.isFavorite || false
       };
 
       if (id) {
         // Update existing note
-        await apiRequest('PUT', `/api/notes/${id}`, noteData);
+        await apiRequest('PUT', `/api/notes/${id}`, payload);
       } else {
         // Create new note
-        await apiRequest('POST', '/api/notes', noteData);
+        await apiRequest('POST', '/api/notes', payload);
       }
     },
     onSuccess: () => {
@@ -316,13 +448,34 @@ const Note = () => {
               {renderModeSettings()}
             </div>
 
+            {/* Page navigation for drawing modes */}
+            {activeMode !== 'training' && (
+              <div className="mt-4">
+                <PageNavigator
+                  pages={pages}
+                  currentIndex={currentPageIndex}
+                  onSelectPage={setCurrentPageIndex}
+                  onAddPage={handleAddPage}
+                  onDeletePage={handleDeletePage}
+                  onMovePage={handleMovePage}
+                />
+              </div>
+            )}
+
             {/* Free Drawing Mode */}
             <TabsContent value="free">
               <DrawingCanvas
-                initialContent={content}
-                onContentChange={handleContentChange}
-                 onStrokeDataChange={handleStrokeDataChange}
+                key={currentPage.id}
+                initialContent={currentPageIndex === 0 ? legacyContent : undefined}
+                initialStrokes={currentPage.strokes}
+                initialHistory={currentPage.history}
+                initialObjects={currentPage.objects}
+                onContentChange={(newContent) => handleContentChange(currentPage.id, newContent)}
+                onStrokeDataChange={(strokes) => handleStrokeDataChange(currentPage.id, strokes)}
+                onObjectsChange={(objects) => handleObjectsChange(currentPage.id, objects)}
+                onHistoryChange={(history) => handleHistoryChange(currentPage.id, history)}
                 onCanvasReady={handleCanvasReady}
+                onViewportChange={handleViewportChange}
                 backgroundStyle={backgroundStyle}
                 enableShapeCorrection={autoCorrectShapes}
                 mode="free"
@@ -333,7 +486,10 @@ const Note = () => {
                 <div className="bg-white rounded-lg shadow p-4">
                   <h3 className="font-medium mb-2 font-dyslexic">Recognized Text:</h3>
                   <TextRecognition
-                    canvasElement={canvasRef.current}
+                    key={currentPage.id}
+                    canvasLayers={canvasLayers}
+                    strokes={currentPage.strokes}
+                    getViewport={() => viewportRef.current}
                     onTextRecognized={handleTextRecognized}
                   />
                 </div>
@@ -343,10 +499,17 @@ const Note = () => {
             {/* Notebook Mode */}
             <TabsContent value="notebook">
               <DrawingCanvas
-                initialContent={content}
-                onContentChange={handleContentChange}
-                 onStrokeDataChange={handleStrokeDataChange}
+                key={currentPage.id}
+                initialContent={currentPageIndex === 0 ? legacyContent : undefined}
+                initialStrokes={currentPage.strokes}
+                initialHistory={currentPage.history}
+                initialObjects={currentPage.objects}
+                onContentChange={(newContent) => handleContentChange(currentPage.id, newContent)}
+                onStrokeDataChange={(strokes) => handleStrokeDataChange(currentPage.id, strokes)}
+                onObjectsChange={(objects) => handleObjectsChange(currentPage.id, objects)}
+                onHistoryChange={(history) => handleHistoryChange(currentPage.id, history)}
                 onCanvasReady={handleCanvasReady}
+                onViewportChange={handleViewportChange}
                 backgroundStyle="lined"
                 lineSpacing={lineSpacing}
                 enableInstantCorrection={instantCorrection}
@@ -356,16 +519,22 @@ const Note = () => {
               {/* Real-time recognized text display for notebook mode */}
               <div className="mt-4 bg-white rounded-lg shadow p-4">
                 <h3 className="font-medium mb-2 font-dyslexic">Corrected Text:</h3>
-                <div className="min-h-[100px] p-3 bg-slate-50 rounded border font-dyslexic text-lg leading-relaxed">
-                  {recognizedText || 'Write on the lines above to see instant text correction'}
-                </div>
+                {/* Fixes made here teach the recognizer */}
+                <Textarea
+                  className="min-h-[100px] p-3 bg-slate-50 font-dyslexic text-lg leading-relaxed"
+                  placeholder="Write on the lines above to see instant text correction"
+                  value={currentPage.recognizedText || ''}
+                  onFocus={(e) => { editStartTextRef.current = e.target.value; }}
+                  onChange={(e) => updatePage(currentPage.id, { recognizedText: e.target.value })}
+                  onBlur={(e) => handleRecognizedTextEdited(currentPage.id, e.target.value)}
+                />
               </div>
             </TabsContent>
 
             {/* Training Mode */}
             <TabsContent value="training">
               <div className="bg-white rounded-lg shadow p-4">
-                <CustomOcrTrainer canvasElement={canvasRef.current} />
+                <CustomOcrTrainer canvasLayers={canvasLayers} />
               </div>
             </TabsContent>
           </Tabs>
@@ -391,13 +560,4 @@ const Note = () => {
   );
 };
 
-export default Note;
-
-interface StrokePoint {
-  x: number;
-  y: number;
-  time: number;
-  pen_down: boolean;
-  pressure?: number;
-  stroke_id?: string;
-}
\ No newline at end of file
+export default Note;
\ No newline at end of file
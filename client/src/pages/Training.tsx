@@ -5,26 +5,53 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Upload, RefreshCw, Save, Brain, FileImage } from 'lucide-react';
+import { ArrowLeft, Upload, RefreshCw, Save, Brain, FileImage, BarChart3, Download } from 'lucide-react';
 import DrawingCanvas from '@/components/DrawingCanvas';
-import { apiRequest } from '@/lib/queryClient';
+import ModelVersionHistory from '@/components/ModelVersionHistory';
+import EvaluationReport from '@/components/EvaluationReport';
+import CalibrationSession from '@/components/CalibrationSession';
+import CorrectionReview from '@/components/CorrectionReview';
+import {
+  ocrPaths,
+  messageResponseSchema,
+  modelInfoResponseSchema,
+  initializeModelResponseSchema,
+  trainingImagesResponseSchema,
+  trainingJobResponseSchema,
+  type DatasetFormat,
+  type DecoderType,
+  type Evaluation,
+  type ModelInfo,
+  type ModelType,
+  type TrainingImage,
+  type TrainingJobResponse
+} from '@shared/ocr';
+import type { StrokePoint } from '@shared/schema';
+import { ocrRequest, uploadTrainingImage, downloadTrainingSet, importTrainingSet } from '@/lib/ocrApi';
+import { TrainingJob, watchTrainingJob, cancelTrainingJob, isJobFinished, jobPercent } from '@/lib/trainingJobs';
 import { getCanvasPreview } from '@/lib/utils';
+import { CanvasLayers, exportLayers } from '@/lib/layers';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
-interface TrainingImage {
-  id: string;
-  label: string;
-  filename: string;
-  path: string;
-}
-
-interface ModelInfo {
-  exists: boolean;
-  modelType: string;
-  inputShape: number[];
-  outputShape: number[];
-  numClasses: number;
-  charSet: string;
+// Status line for a running training job
+function describeJobProgress(job: TrainingJob): string {
+  if (job.status === 'queued') return 'Waiting for other training to finish...';
+  
+  const latest = job.progress[job.progress.length - 1];
+  if (!latest) return 'Starting training...';
+  
+  const accuracy = latest.accuracy !== undefined ? `, accuracy ${(latest.accuracy * 100).toFixed(1)}%` : '';
+  return `Epoch ${latest.epoch}/${latest.epochs}: loss ${latest.loss.toFixed(4)}${accuracy}`;
 }
 
 const Training = () => {
@@ -39,20 +66,35 @@ const Training = () => {
   const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
   const [modelInfo, setModelInfo] = useState<ModelInfo | null>(null);
   const [activeTab, setActiveTab] = useState('draw');
+  const [selectedModelType, setSelectedModelType] = useState<ModelType>('character');
+  const [selectedDecoder, setSelectedDecoder] = useState<DecoderType>('greedy');
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+  const [trainingLosses, setTrainingLosses] = useState<number[]>([]);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [activeJob, setActiveJob] = useState<TrainingJob | null>(null);
+  const [augmentEnabled, setAugmentEnabled] = useState(true);
+  const [augmentCopies, setAugmentCopies] = useState(4);
+  const [importFormat, setImportFormat] = useState<DatasetFormat | 'auto'>('auto');
+  const [exportStrokes, setExportStrokes] = useState(true);
   
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const layersRef = useRef<CanvasLayers | null>(null);
+  const strokesRef = useRef<StrokePoint[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const batchFileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   
   // Fetch existing training images and model info
   const fetchTrainingData = async () => {
     setIsLoading(true);
     try {
-      const response = await apiRequest('GET', '/api/ocr/training-images');
-      setTrainingImages(response.trainingImages || []);
+      // Corrections waiting for review are listed separately
+      const { trainingImages } = await ocrRequest('GET', ocrPaths.trainingImages, trainingImagesResponseSchema, {
+        query: { status: 'accepted' }
+      });
+      setTrainingImages(trainingImages);
       
-      const modelInfoResponse = await apiRequest('GET', '/api/ocr/status');
-      setModelInfo(modelInfoResponse.modelInfo);
+      const { modelInfo } = await ocrRequest('GET', ocrPaths.modelInfo, modelInfoResponseSchema);
+      setModelInfo(modelInfo);
     } catch (error) {
       console.error('Error fetching training data:', error);
       toast({
@@ -65,18 +107,25 @@ const Training = () => {
     }
   };
   
+  // Keep the model selection in sync with the active model
+  useEffect(() => {
+    if (!modelInfo) return;
+    setSelectedModelType(modelInfo.type || 'character');
+    if (modelInfo.decoder) setSelectedDecoder(modelInfo.decoder);
+  }, [modelInfo]);
+  
   useEffect(() => {
     fetchTrainingData();
   }, []);
   
   // Handle canvas ready
-  const handleCanvasReady = (canvas: HTMLCanvasElement) => {
-    canvasRef.current = canvas;
+  const handleCanvasReady = (_canvas: HTMLCanvasElement, layers: CanvasLayers) => {
+    layersRef.current = layers;
   };
   
   // Handle canvas capture for training
   const handleCaptureCanvas = async () => {
-    if (!canvasRef.current || !currentLabel.trim()) {
+    if (!layersRef.current || !currentLabel.trim()) {
       toast({
         title: 'Invalid input',
         description: 'Please draw something and provide a label',
@@ -88,29 +137,18 @@ const Training = () => {
     setIsUploading(true);
     try {
       // Convert canvas to data URL
-      const canvasData = canvasRef.current.toDataURL('image/png');
-      
-      // Create form data
-      const formData = new FormData();
+      // Training samples are the ink alone on white, without page lines
+      const canvasData = exportLayers(layersRef.current, { includeBackground: false });
       
-      // Convert data URL to blob
+      // Convert data URL to blob and send it to the server
       const response = await fetch(canvasData);
       const blob = await response.blob();
-      
-      // Append to form data
-      formData.append('image', blob, 'canvas_drawing.png');
-      formData.append('label', currentLabel);
-      
-      // Send to server
-      const uploadResponse = await fetch('/api/ocr/upload-training', {
-        method: 'POST',
-        body: formData
+      await uploadTrainingImage(blob, currentLabel, {
+        filename: 'canvas_drawing.png',
+        source: 'drawn',
+        strokes: strokesRef.current
       });
       
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload canvas data');
-      }
-      
       toast({
         title: 'Success',
         description: 'Drawing captured for training',
@@ -148,18 +186,7 @@ const Training = () => {
 
     setIsUploading(true);
     try {
-      const formData = new FormData();
-      formData.append('image', files[0]);
-      formData.append('label', currentLabel);
-      
-      const uploadResponse = await fetch('/api/ocr/upload-training', {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!uploadResponse.ok) {
-        throw new Error('Failed to upload image');
-      }
+      await uploadTrainingImage(files[0], currentLabel);
       
       toast({
         title: 'Success',
@@ -227,22 +254,9 @@ const Training = () => {
           continue;
         }
         
-        // Create form data for this file
-        const formData = new FormData();
-        formData.append('image', file);
-        formData.append('label', fileLabel);
-        
         try {
-          const response = await fetch('/api/ocr/upload-training', {
-            method: 'POST',
-            body: formData
-          });
-          
-          if (response.ok) {
-            uploadCount++;
-          } else {
-            errorCount++;
-          }
+          await uploadTrainingImage(file, fileLabel);
+          uploadCount++;
         } catch (e) {
           errorCount++;
         }
@@ -282,6 +296,77 @@ const Training = () => {
     }
   };
   
+  // Import a training set archive
+  const handleImportArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const result = await importTrainingSet(file, { format: importFormat });
+      
+      toast({
+        title: 'Import Complete',
+        description: `Imported ${result.imported} samples${result.skipped > 0 ? `, skipped ${result.skipped} unreadable entries` : ''}`,
+      });
+      
+      fetchTrainingData();
+    } catch (error) {
+      console.error('Error importing training set:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to import training set',
+        variant: 'destructive'
+      });
+    } finally {
+      if (archiveInputRef.current) {
+        archiveInputRef.current.value = '';
+      }
+      setIsUploading(false);
+    }
+  };
+  
+  // Download the training set as a zip
+  const handleExportArchive = async () => {
+    try {
+      await downloadTrainingSet(exportStrokes);
+    } catch (error) {
+      console.error('Error exporting training set:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export training set',
+        variant: 'destructive'
+      });
+    }
+  };
+  
+  // Distortion settings sent with every training request
+  const augmentation = { enabled: augmentEnabled, copies: augmentCopies };
+  
+  // Follow the training job the server started until it finishes
+  const followTrainingJob = async ({ job }: TrainingJobResponse): Promise<TrainingJob> => {
+    setActiveJob(job);
+    
+    const finished = await watchTrainingJob(job.id, setActiveJob);
+    if (finished.status === 'failed') {
+      throw new Error(finished.error || 'Training failed');
+    }
+    return finished;
+  };
+  
+  const handleCancelTraining = async () => {
+    if (!activeJob) return;
+    try {
+      await cancelTrainingJob(activeJob.id);
+      toast({
+        title: 'Cancelling',
+        description: 'Training will stop after the current epoch, the model is left unchanged',
+      });
+    } catch (error) {
+      console.error('Error cancelling training:', error);
+    }
+  };
+  
   // Handle training the model with a selected image
   const handleTrainModel = async () => {
     if (!selectedImageId || !currentLabel.trim()) {
@@ -295,10 +380,10 @@ const Training = () => {
 
     setIsTraining(true);
     try {
-      const response = await apiRequest('POST', '/api/ocr/train', {
-        imageId: selectedImageId,
-        label: currentLabel
-      });
+      const job = await followTrainingJob(await ocrRequest('POST', ocrPaths.train, trainingJobResponseSchema, {
+        body: { imageId: selectedImageId, label: currentLabel, augmentation }
+      }));
+      if (job.status !== 'completed') return;
       
       toast({
         title: 'Success',
@@ -306,8 +391,8 @@ const Training = () => {
       });
       
       // Refresh model info
-      const modelInfoResponse = await apiRequest('GET', '/api/ocr/status');
-      setModelInfo(modelInfoResponse.modelInfo);
+      const { modelInfo } = await ocrRequest('GET', ocrPaths.modelInfo, modelInfoResponseSchema);
+      setModelInfo(modelInfo);
       
       // Clear selection and label
       setSelectedImageId(null);
@@ -338,16 +423,22 @@ const Training = () => {
 
     setIsTraining(true);
     try {
-      const response = await apiRequest('POST', '/api/ocr/train-batch', {});
+      const job = await followTrainingJob(await ocrRequest('POST', ocrPaths.trainBatch, trainingJobResponseSchema, {
+        body: { augmentation }
+      }));
+      if (job.status !== 'completed') return;
+      
+      setTrainingLosses(job.result?.losses || []);
+      setEvaluation(job.result?.evaluation || null);
       
       toast({
         title: 'Success',
-        description: 'Model trained on all images',
+        description: `Model trained on ${job.sampleCount} images`,
       });
       
       // Refresh model info
-      const modelInfoResponse = await apiRequest('GET', '/api/ocr/status');
-      setModelInfo(modelInfoResponse.modelInfo);
+      const { modelInfo } = await ocrRequest('GET', ocrPaths.modelInfo, modelInfoResponseSchema);
+      setModelInfo(modelInfo);
       
     } catch (error) {
       console.error('Error training model on all images:', error);
@@ -361,10 +452,34 @@ const Training = () => {
     }
   };
   
+  // Evaluate the current model on the held-out images
+  const handleEvaluate = async () => {
+    setIsEvaluating(true);
+    try {
+      const { job } = await ocrRequest('POST', ocrPaths.evaluate, trainingJobResponseSchema);
+      const finished = await watchTrainingJob(job.id, () => {});
+      if (finished.status === 'failed') {
+        throw new Error(finished.error || 'Evaluation failed');
+      }
+      
+      setTrainingLosses([]);
+      setEvaluation(finished.result?.evaluation || null);
+    } catch (error) {
+      console.error('Error evaluating model:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to evaluate model',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+  
   // Handle deleting a training image
   const handleDeleteImage = async (imageId: string) => {
     try {
-      await apiRequest('DELETE', `/api/ocr/training-image/${imageId}`);
+      await ocrRequest('DELETE', ocrPaths.trainingImage, messageResponseSchema, { id: imageId });
       
       toast({
         title: 'Success',
@@ -394,9 +509,11 @@ const Training = () => {
   const handleInitializeModel = async () => {
     setIsLoading(true);
     try {
-      const response = await apiRequest('POST', '/api/ocr/initialize');
+      const { modelInfo } = await ocrRequest('POST', ocrPaths.initialize, initializeModelResponseSchema, {
+        body: { modelType: selectedModelType, decoder: selectedDecoder }
+      });
       
-      setModelInfo(response.modelInfo);
+      setModelInfo(modelInfo);
       
       toast({
         title: 'Success',
@@ -442,10 +559,11 @@ const Training = () => {
             
             <CardContent>
               <Tabs defaultValue={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-3 mb-4">
+                <TabsList className="grid w-full grid-cols-4 mb-4">
                   <TabsTrigger value="draw">Draw</TabsTrigger>
                   <TabsTrigger value="upload">Upload</TabsTrigger>
                   <TabsTrigger value="batch">Batch</TabsTrigger>
+                  <TabsTrigger value="dataset">Dataset</TabsTrigger>
                 </TabsList>
                 
                 {/* Draw Tab */}
@@ -464,6 +582,7 @@ const Training = () => {
                     <div className="border rounded-lg p-4 bg-slate-50">
                       <DrawingCanvas
                         onCanvasReady={handleCanvasReady}
+                        onStrokeDataChange={strokes => { strokesRef.current = strokes; }}
                         mode="training"
                       />
                     </div>
@@ -536,6 +655,53 @@ const Training = () => {
                     </p>
                   </div>
                 </TabsContent>
+                
+                {/* Dataset Tab */}
+                <TabsContent value="dataset">
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="import-format">Archive Layout</Label>
+                      <Select value={importFormat} onValueChange={(value) => setImportFormat(value as DatasetFormat | 'auto')}>
+                        <SelectTrigger id="import-format">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Detect automatically</SelectItem>
+                          <SelectItem value="native">Exported training set</SelectItem>
+                          <SelectItem value="folders">One folder per label</SelectItem>
+                          <SelectItem value="csv">CSV of image paths and labels</SelectItem>
+                          <SelectItem value="idx">EMNIST/MNIST idx files</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="import-archive">Import Zip Archive</Label>
+                      <Input
+                        ref={archiveInputRef}
+                        id="import-archive"
+                        type="file"
+                        accept=".zip"
+                        onChange={handleImportArchive}
+                        disabled={isUploading}
+                      />
+                    </div>
+                    
+                    <div className="flex items-center justify-between border-t pt-4">
+                      <Label htmlFor="export-strokes">Include stroke data</Label>
+                      <Switch
+                        id="export-strokes"
+                        checked={exportStrokes}
+                        onCheckedChange={setExportStrokes}
+                      />
+                    </div>
+                    
+                    <Button variant="outline" className="w-full" onClick={handleExportArchive}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export Training Set
+                    </Button>
+                  </div>
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -558,6 +724,9 @@ const Training = () => {
                     <div className="font-medium">Model Type:</div>
                     <div>{modelInfo.modelType}</div>
                     
+                    <div className="font-medium">Trained On:</div>
+                    <div>{modelInfo.personalized ? 'Your handwriting' : 'Shared base model'}</div>
+                    
                     <div className="font-medium">Character Set Size:</div>
                     <div>{modelInfo.numClasses || 'N/A'}</div>
                     
@@ -570,6 +739,68 @@ const Training = () => {
                   {isLoading ? 'Loading model information...' : 'No model information available'}
                 </div>
               )}
+              
+              <div className="grid grid-cols-2 gap-2 items-center text-sm mt-4">
+                <Label htmlFor="model-type">Model:</Label>
+                <Select
+                  value={selectedModelType}
+                  onValueChange={(value: ModelType) => setSelectedModelType(value)}
+                >
+                  <SelectTrigger id="model-type">
+                    <SelectValue placeholder="Model type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="character">Single characters</SelectItem>
+                    <SelectItem value="sequence">Whole words and lines</SelectItem>
+                  </SelectContent>
+                </Select>
+                
+                {selectedModelType === 'sequence' && (
+                  <>
+                    <Label htmlFor="decoder">Decoding:</Label>
+                    <Select
+                      value={selectedDecoder}
+                      onValueChange={(value: DecoderType) => setSelectedDecoder(value)}
+                    >
+                      <SelectTrigger id="decoder">
+                        <SelectValue placeholder="Decoder" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="greedy">Fast (greedy)</SelectItem>
+                        <SelectItem value="beam">Accurate (beam search)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
+              
+              <div className="space-y-3 text-sm mt-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="augment-enabled"
+                    checked={augmentEnabled}
+                    onCheckedChange={setAugmentEnabled}
+                  />
+                  <Label htmlFor="augment-enabled">Train on distorted copies of each sample</Label>
+                </div>
+                
+                {augmentEnabled && (
+                  <div>
+                    <Label>Copies per sample: {augmentCopies}</Label>
+                    <Slider
+                      className="mt-2"
+                      min={1}
+                      max={10}
+                      step={1}
+                      value={[augmentCopies]}
+                      onValueChange={([value]) => setAugmentCopies(value)}
+                    />
+                    <p className="text-muted-foreground mt-1">
+                      Slightly rotated, slanted and warped copies help the model learn from only a few drawings
+                    </p>
+                  </div>
+                )}
+              </div>
             </CardContent>
             
             <CardFooter className="flex justify-between">
@@ -595,6 +826,10 @@ const Training = () => {
         
         {/* Right column - Image Gallery & Training */}
         <div className="md:col-span-3">
+          <CorrectionReview refreshKey={modelInfo} onReviewed={fetchTrainingData} />
+          
+          <CalibrationSession onSampleCaptured={fetchTrainingData} />
+          
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <div>
@@ -681,6 +916,18 @@ const Training = () => {
                 </div>
               )}
               
+              {activeJob && !isJobFinished(activeJob) && (
+                <div className="w-full space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{describeJobProgress(activeJob)}</span>
+                    <Button variant="ghost" size="sm" onClick={handleCancelTraining}>
+                      Cancel
+                    </Button>
+                  </div>
+                  <Progress value={jobPercent(activeJob)} />
+                </div>
+              )}
+              
               <Button 
                 className="w-full" 
                 onClick={handleTrainAll}
@@ -689,8 +936,22 @@ const Training = () => {
                 <Brain className="mr-2 h-4 w-4" />
                 {isTraining ? 'Training...' : 'Train Model on All Images'}
               </Button>
+              
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleEvaluate}
+                disabled={isTraining || isEvaluating || trainingImages.length === 0}
+              >
+                <BarChart3 className="mr-2 h-4 w-4" />
+                {isEvaluating ? 'Evaluating...' : 'Evaluate Model'}
+              </Button>
             </CardFooter>
           </Card>
+          
+          {evaluation && <EvaluationReport evaluation={evaluation} losses={trainingLosses} />}
+          
+          <ModelVersionHistory refreshKey={modelInfo} onVersionActivated={fetchTrainingData} />
         </div>
       </div>
     </div>
@@ -2,86 +2,202 @@ import { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { fromZodError } from 'zod-validation-error';
+import type { InsertTrainingSample, StrokePoint, TrainingSample } from '@shared/schema';
+import {
+  ocrPaths,
+  ocrUrl,
+  initializeModelRequestSchema,
+  uploadTrainingImageRequestSchema,
+  trainingImagesRequestSchema,
+  reviewTrainingImageRequestSchema,
+  trainImageRequestSchema,
+  trainBatchRequestSchema,
+  recognizeCanvasRequestSchema,
+  recognizeStrokesRequestSchema,
+  trainStrokesRequestSchema,
+  exportDatasetRequestSchema,
+  importDatasetRequestSchema,
+  calibrationRequestSchema,
+  type TrainingImage,
+  type TrainingJob,
+  type ModelInfoResponse,
+  type InitializeModelResponse,
+  type RecognitionResponse,
+  type TrainingJobResponse,
+  type TrainingImagesResponse,
+  type UploadTrainingImageResponse,
+  type ReviewTrainingImageResponse,
+  type ModelVersionsResponse,
+  type VersionComparison,
+  type TrainingJobsResponse,
+  type ImportDatasetResponse,
+  type CalibrationResponse
+} from '@shared/ocr';
+import { storage } from '../storage';
 import * as ocrModel from '../services/ocrModel';
+import * as strokeModel from '../services/strokeModel';
+import { splitTrainValidation } from '../services/evaluation';
+import { readDataset, writeDataset, type DatasetSample } from '../services/datasets';
+import { calibrationCoverage } from '../services/calibration';
+import {
+  enqueueTrainingJob,
+  getTrainingJob as findTrainingJob,
+  listTrainingJobs,
+  cancelTrainingJob as cancelJob,
+  subscribeToTrainingJob,
+  isFinished
+} from '../services/trainingJobs';
+import {
+  BASE_PROFILE,
+  listVersions,
+  findVersion,
+  activateVersion,
+  deleteVersion
+} from '../services/modelStore';
 
-// In-memory storage for training images metadata
-interface TrainingImage {
-  id: string;
-  label: string;
-  filename: string;
-  path: string;
-}
-
-let trainingImages: TrainingImage[] = [];
+const TRAINING_DIR = path.join(process.cwd(), 'uploads/training');
 
 // Ensure the uploads and training directories exist
 const initializeDirectories = () => {
-  const uploadsDir = path.join(process.cwd(), 'uploads');
-  const trainingDir = path.join(uploadsDir, 'training');
-  
-  if (!fs.existsSync(uploadsDir)) {
-    fs.mkdirSync(uploadsDir, { recursive: true });
-  }
-  
-  if (!fs.existsSync(trainingDir)) {
-    fs.mkdirSync(trainingDir, { recursive: true });
+  if (!fs.existsSync(TRAINING_DIR)) {
+    fs.mkdirSync(TRAINING_DIR, { recursive: true });
   }
 };
 
-// Load existing training images at startup
-const loadTrainingImages = () => {
-  const trainingDir = path.join(process.cwd(), 'uploads/training');
-  
-  // Ensure directories exist
-  initializeDirectories();
+/**
+ * Import training data kept by earlier versions in metadata.json and
+ * stroke-samples.json, skipping samples that are already stored
+ */
+const importLegacyTrainingData = async () => {
+  const readSamples = (filename: string, key: string) => {
+    const filePath = path.join(TRAINING_DIR, filename);
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8'))[key] || [] : [];
+  };
   
   try {
-    // Try to load metadata file if it exists
-    const metadataPath = path.join(trainingDir, 'metadata.json');
-    if (fs.existsSync(metadataPath)) {
-      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
-      trainingImages = metadata.images || [];
-      
-      // Filter out images that no longer exist
-      trainingImages = trainingImages.filter(img => {
-        const imgPath = path.join(trainingDir, img.filename);
-        return fs.existsSync(imgPath);
+    // Data from before profiles belongs to the base profile
+    const images: Array<{ id: string; label: string; filename: string; profile?: string }> =
+      readSamples('metadata.json', 'images');
+    for (const img of images) {
+      if (!fs.existsSync(path.join(TRAINING_DIR, img.filename)) || await storage.getTrainingSample(img.id)) continue;
+      await storage.createTrainingSample({
+        id: img.id,
+        label: img.label,
+        profile: img.profile || BASE_PROFILE,
+        source: 'uploaded',
+        imageFilename: img.filename
+      });
+    }
+    
+    const strokeSamples: Array<{ id: string; label: string; strokes: StrokePoint[]; profile?: string }> =
+      readSamples('stroke-samples.json', 'samples');
+    for (const sample of strokeSamples) {
+      if (await storage.getTrainingSample(sample.id)) continue;
+      await storage.createTrainingSample({
+        id: sample.id,
+        label: sample.label,
+        profile: sample.profile || BASE_PROFILE,
+        source: 'drawn',
+        strokes: sample.strokes
       });
     }
   } catch (error) {
-    console.error('Error loading training image metadata:', error);
-    trainingImages = [];
+    console.error('Error importing training data:', error);
   }
 };
 
-// Save training images metadata
-const saveTrainingImagesMetadata = () => {
-  const metadataPath = path.join(process.cwd(), 'uploads/training/metadata.json');
-  
-  try {
-    fs.writeFileSync(metadataPath, JSON.stringify({ images: trainingImages }, null, 2));
-  } catch (error) {
-    console.error('Error saving training image metadata:', error);
-  }
+// The profile resolved for this request by the OCR router
+const getProfile = (res: Response): string => res.locals.profile || BASE_PROFILE;
+
+// A profile's samples that may be trained on, leaving out corrections
+// waiting for review
+const getAcceptedSamples = async (profile: string) =>
+  (await storage.getTrainingSamples(profile)).filter(sample => sample.status === 'accepted');
+
+// A profile's accepted samples that have an image, for the image models
+const getImageSamples = async (profile: string) =>
+  (await getAcceptedSamples(profile)).filter(sample => sample.imageFilename);
+
+// Split image samples into training and held-out validation sets. Reviewed
+// corrections are always trained on, so the model learns from the mistakes it
+// made in real use, and never held out.
+const splitImageSamples = (images: TrainingSample[]) => {
+  const corrections = images.filter(sample => sample.source === 'correction');
+  const { train, validation } = splitTrainValidation(
+    images.filter(sample => sample.source !== 'correction'),
+    sample => sample.id
+  );
+  return { train: [...train, ...corrections], validation, corrections };
+};
+
+// One of the profile's samples, if it exists
+const findSample = async (profile: string, id: string) => {
+  const sample = await storage.getTrainingSample(id);
+  return sample && sample.profile === profile ? sample : undefined;
+};
+
+// Image file and label of a training sample, as the model services take them
+const toExample = (sample: TrainingSample) => ({
+  imagePath: path.join(TRAINING_DIR, sample.imageFilename!),
+  label: sample.label
+});
+
+// A training sample as the API shows it
+const toTrainingImage = (sample: TrainingSample): TrainingImage => ({
+  id: sample.id,
+  label: sample.label,
+  profile: sample.profile,
+  source: sample.source,
+  status: sample.status,
+  recognizedAs: sample.recognizedAs,
+  path: ocrUrl(ocrPaths.trainingImage, sample.id),
+  strokeCount: sample.strokes?.length || 0,
+  timesTrained: sample.timesTrained,
+  lastTrainedAt: sample.lastTrainedAt?.toISOString() || null,
+  createdAt: sample.createdAt?.toISOString() || null
+});
+
+// Count a training run against the samples it used, once it has finished
+const recordUseWhenDone = (job: TrainingJob, samples: TrainingSample[]) => {
+  const unsubscribe = subscribeToTrainingJob(job.id, update => {
+    if (!isFinished(update)) return;
+    unsubscribe();
+    
+    if (update.status === 'completed') {
+      storage.recordTrainingSampleUse(samples.map(sample => sample.id))
+        .catch(error => console.error('Error recording training sample use:', error));
+    }
+  });
 };
 
 // Initialize at startup
-loadTrainingImages();
+initializeDirectories();
+importLegacyTrainingData();
 
 /**
  * Initialize the OCR model
  */
 export async function initializeModel(req: Request, res: Response) {
+  const parsed = initializeModelRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
   try {
-    const model = await ocrModel.initializeModel();
+    const profile = getProfile(res);
+    await ocrModel.initializeModel(parsed.data, profile);
     
-    const modelInfo = await ocrModel.getModelInfo();
+    const modelInfo = await ocrModel.getModelInfo(profile);
     
     res.json({
       success: true,
       message: 'OCR model initialized successfully',
       modelInfo
-    });
+    } satisfies InitializeModelResponse);
   } catch (error) {
     console.error('Error initializing OCR model:', error);
     res.status(500).json({
@@ -97,12 +213,15 @@ export async function initializeModel(req: Request, res: Response) {
  */
 export async function getModelInfo(req: Request, res: Response) {
   try {
-    const modelInfo = await ocrModel.getModelInfo();
+    const profile = getProfile(res);
+    const modelInfo = await ocrModel.getModelInfo(profile);
+    const strokeModelInfo = await strokeModel.getStrokeModelInfo(profile);
     
     res.json({
       success: true,
-      modelInfo
-    });
+      modelInfo,
+      strokeModelInfo
+    } satisfies ModelInfoResponse);
   } catch (error) {
     console.error('Error getting model info:', error);
     res.status(500).json({
@@ -117,36 +236,38 @@ export async function getModelInfo(req: Request, res: Response) {
  * Upload and store training image
  */
 export async function uploadTrainingImage(req: Request, res: Response) {
-  if (!req.file || !req.body.label) {
+  if (!req.file) {
+    return res.status(400).json({
+      success: false,
+      message: 'Image file is required'
+    });
+  }
+  
+  const parsed = uploadTrainingImageRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    // Multer has already stored the file
+    fs.unlinkSync(req.file.path);
     return res.status(400).json({
       success: false,
-      message: 'Image file and label are required'
+      message: fromZodError(parsed.error).message
     });
   }
   
   try {
-    const label = req.body.label;
-    const filename = req.file.filename;
-    const id = uuidv4();
-    
-    // Add to training images array
-    const imageRecord: TrainingImage = {
-      id,
-      label,
-      filename,
-      path: `/api/ocr/training-image/${id}`
-    };
-    
-    trainingImages.push(imageRecord);
-    
-    // Save metadata
-    saveTrainingImagesMetadata();
+    // Corrections come from recognized notes rather than deliberate training,
+    // so they wait for the user to review them
+    const sample = await storage.createTrainingSample({
+      ...parsed.data,
+      profile: getProfile(res),
+      status: parsed.data.source === 'correction' ? 'pending' : 'accepted',
+      imageFilename: req.file.filename
+    });
     
     res.json({
       success: true,
-      message: 'Training image uploaded successfully',
-      image: imageRecord
-    });
+      message: sample.status === 'pending' ? 'Correction queued for review' : 'Training image uploaded successfully',
+      image: toTrainingImage(sample)
+    } satisfies UploadTrainingImageResponse);
   } catch (error) {
     console.error('Error uploading training image:', error);
     res.status(500).json({
@@ -161,41 +282,53 @@ export async function uploadTrainingImage(req: Request, res: Response) {
  * Train model with uploaded image 
  */
 export async function trainWithImage(req: Request, res: Response) {
-  const { imageId, label } = req.body;
-  
-  if (!imageId || !label) {
+  const parsed = trainImageRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
     return res.status(400).json({
       success: false,
-      message: 'Image ID and label are required'
+      message: fromZodError(parsed.error).message
     });
   }
   
   try {
-    // Find image record
-    const imageRecord = trainingImages.find(img => img.id === imageId);
-    if (!imageRecord) {
+    const { imageId, label, augmentation } = parsed.data;
+    
+    // Find the sample
+    let sample = await findSample(getProfile(res), imageId);
+    if (!sample || !sample.imageFilename) {
       return res.status(404).json({
         success: false,
         message: 'Training image not found'
       });
     }
     
-    // Update label if it changed
-    if (imageRecord.label !== label) {
-      imageRecord.label = label;
-      saveTrainingImagesMetadata();
+    // Corrections are trained on only once they have been reviewed
+    if (sample.status !== 'accepted') {
+      return res.status(409).json({
+        success: false,
+        message: 'Only accepted training images can be trained on'
+      });
     }
     
-    // Get image path
-    const imagePath = path.join(process.cwd(), 'uploads/training', imageRecord.filename);
+    // Update label if it changed
+    if (sample.label !== label) {
+      sample = (await storage.updateTrainingSample(sample.id, { label }))!;
+    }
     
-    // Train model with image
-    await ocrModel.updateModelWithExample(imagePath, label);
+    // Train model with image in the background
+    const job = enqueueTrainingJob({
+      type: 'images',
+      profile: getProfile(res),
+      examples: [toExample(sample)],
+      augmentation
+    });
+    recordUseWhenDone(job, [sample]);
     
-    res.json({
+    res.status(202).json({
       success: true,
-      message: 'Model trained successfully with image'
-    });
+      message: 'Training with image started',
+      job
+    } satisfies TrainingJobResponse);
   } catch (error) {
     console.error('Error training model with image:', error);
     res.status(500).json({
@@ -207,32 +340,27 @@ export async function trainWithImage(req: Request, res: Response) {
 }
 
 /**
- * Upload canvas and recognize text 
+ * Recognize text from a canvas image sent as a data URL
  */
 export async function recognizeFromCanvas(req: Request, res: Response) {
-  if (!req.file) {
+  const parsed = recognizeCanvasRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
     return res.status(400).json({
       success: false,
-      message: 'Image data is required'
+      message: fromZodError(parsed.error).message
     });
   }
   
   try {
-    // Get file path and recognize text
-    const imagePath = req.file.path;
-    const recognizedText = await ocrModel.recognizeText(await ocrModel.preprocessImage(imagePath));
-    
-    // Clean up the temp file
-    try {
-      fs.unlinkSync(imagePath);
-    } catch (e) {
-      console.error('Error deleting temporary file:', e);
-    }
+    const { canvasData, topK } = parsed.data;
+    const result = await ocrModel.recognizeTextFromCanvas(canvasData, topK, getProfile(res));
     
     res.json({
       success: true,
-      text: recognizedText
-    });
+      text: result.text,
+      confidence: result.confidence,
+      lines: result.lines
+    } satisfies RecognitionResponse);
   } catch (error) {
     console.error('Error recognizing text:', error);
     res.status(500).json({
@@ -244,36 +372,116 @@ export async function recognizeFromCanvas(req: Request, res: Response) {
 }
 
 /**
- * Train on a batch of training images
+ * Recognize text from stroke data instead of an image
  */
-export async function trainBatch(req: Request, res: Response) {
-  if (trainingImages.length === 0) {
+export async function recognizeStrokes(req: Request, res: Response) {
+  const parsed = recognizeStrokesRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
     return res.status(400).json({
       success: false,
-      message: 'No training images available'
+      message: fromZodError(parsed.error).message
     });
   }
   
   try {
-    // Prepare batch data
-    const batchData = await Promise.all(
-      trainingImages.map(async (img) => {
-        const imagePath = path.join(process.cwd(), 'uploads/training', img.filename);
-        const tensor = await ocrModel.preprocessImage(imagePath);
-        return {
-          tensor,
-          label: img.label
-        };
-      })
-    );
-    
-    // Train on batch
-    await ocrModel.trainOnBatch(batchData);
+    const result = await strokeModel.recognizeStrokes(parsed.data.strokes, parsed.data.topK, getProfile(res));
     
     res.json({
       success: true,
-      message: `Model trained on batch of ${trainingImages.length} images`
+      text: result.text,
+      confidence: result.confidence,
+      lines: result.lines
+    } satisfies RecognitionResponse);
+  } catch (error) {
+    console.error('Error recognizing strokes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to recognize strokes',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Store a labeled stroke sample and train the stroke model on all samples
+ */
+export async function trainWithStrokes(req: Request, res: Response) {
+  const parsed = trainStrokesRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const profile = getProfile(res);
+    const sample = await storage.createTrainingSample({ ...parsed.data, profile, source: 'drawn' });
+    
+    const samples = (await getAcceptedSamples(profile)).filter(stored => stored.strokes && stored.strokes.length > 0);
+    const job = enqueueTrainingJob({
+      type: 'strokes',
+      profile,
+      samples: samples.map(stored => ({ strokes: stored.strokes!, label: stored.label }))
+    });
+    recordUseWhenDone(job, samples);
+    
+    res.status(202).json({
+      success: true,
+      message: `Training stroke model on ${samples.length} samples`,
+      sampleId: sample.id,
+      job
+    } satisfies TrainingJobResponse);
+  } catch (error) {
+    console.error('Error training stroke model:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to train stroke model',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Train on a batch of training images
+ */
+export async function trainBatch(req: Request, res: Response) {
+  const parsed = trainBatchRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const profile = getProfile(res);
+    const images = await getImageSamples(profile);
+    
+    if (images.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No training images available'
+      });
+    }
+    
+    // Train the profile's active model on its images in the background,
+    // holding some out to evaluate on
+    const { train, validation, corrections } = splitImageSamples(images);
+    const job = enqueueTrainingJob({
+      type: 'images',
+      profile,
+      examples: train.map(toExample),
+      validation: validation.map(toExample),
+      augmentation: parsed.data.augmentation
     });
+    recordUseWhenDone(job, train);
+    
+    res.status(202).json({
+      success: true,
+      message: `Training on batch of ${train.length} images (${corrections.length} corrections), ${validation.length} held out for validation`,
+      job
+    } satisfies TrainingJobResponse);
   } catch (error) {
     console.error('Error training on batch:', error);
     res.status(500).json({
@@ -284,25 +492,74 @@ export async function trainBatch(req: Request, res: Response) {
   }
 }
 
+/**
+ * Start evaluating the active model on the held-out training images in the background
+ */
+export async function evaluate(req: Request, res: Response) {
+  try {
+    const profile = getProfile(res);
+    const { validation } = splitImageSamples(await getImageSamples(profile));
+    
+    // Reading the images takes a while, so it runs in the background like training
+    const job = enqueueTrainingJob({
+      type: 'evaluation',
+      profile,
+      validation: validation.map(toExample)
+    });
+    
+    res.status(202).json({
+      success: true,
+      message: `Evaluating on ${validation.length} held-out images`,
+      job
+    } satisfies TrainingJobResponse);
+  } catch (error) {
+    console.error('Error evaluating model:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to evaluate model',
+      error: (error as Error).message
+    });
+  }
+}
+
 /**
  * Get list of all training images
  */
 export async function getTrainingImages(req: Request, res: Response) {
-  res.json({
-    success: true,
-    trainingImages
-  });
+  const parsed = trainingImagesRequestSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const { status } = parsed.data;
+    const samples = (await storage.getTrainingSamples(getProfile(res)))
+      .filter(sample => sample.imageFilename && (!status || sample.status === status));
+    
+    res.json({
+      success: true,
+      trainingImages: samples.map(toTrainingImage)
+    } satisfies TrainingImagesResponse);
+  } catch (error) {
+    console.error('Error listing training images:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list training images',
+      error: (error as Error).message
+    });
+  }
 }
 
 /**
  * Serve a training image
  */
 export async function getTrainingImage(req: Request, res: Response) {
-  const { id } = req.params;
-  
-  // Find image record
-  const imageRecord = trainingImages.find(img => img.id === id);
-  if (!imageRecord) {
+  // Image tags can't send the profile header, so the id alone identifies it
+  const sample = await storage.getTrainingSample(req.params.id);
+  if (!sample || !sample.imageFilename) {
     return res.status(404).json({
       success: false,
       message: 'Training image not found'
@@ -310,14 +567,10 @@ export async function getTrainingImage(req: Request, res: Response) {
   }
   
   // Get image path
-  const imagePath = path.join(process.cwd(), 'uploads/training', imageRecord.filename);
+  const imagePath = path.join(TRAINING_DIR, sample.imageFilename);
   
   // Check if file exists
   if (!fs.existsSync(imagePath)) {
-    // Remove from metadata and save
-    trainingImages = trainingImages.filter(img => img.id !== id);
-    saveTrainingImagesMetadata();
-    
     return res.status(404).json({
       success: false,
       message: 'Training image file not found'
@@ -332,29 +585,24 @@ export async function getTrainingImage(req: Request, res: Response) {
  * Delete a training image
  */
 export async function deleteTrainingImage(req: Request, res: Response) {
-  const { id } = req.params;
-  
-  // Find image record
-  const imageRecord = trainingImages.find(img => img.id === id);
-  if (!imageRecord) {
-    return res.status(404).json({
-      success: false,
-      message: 'Training image not found'
-    });
-  }
-  
   try {
+    const sample = await findSample(getProfile(res), req.params.id);
+    if (!sample || !sample.imageFilename) {
+      return res.status(404).json({
+        success: false,
+        message: 'Training image not found'
+      });
+    }
+    
     // Get image path
-    const imagePath = path.join(process.cwd(), 'uploads/training', imageRecord.filename);
+    const imagePath = path.join(TRAINING_DIR, sample.imageFilename);
     
     // Delete file if it exists
     if (fs.existsSync(imagePath)) {
       fs.unlinkSync(imagePath);
     }
     
-    // Remove from metadata and save
-    trainingImages = trainingImages.filter(img => img.id !== id);
-    saveTrainingImagesMetadata();
+    await storage.deleteTrainingSample(sample.id);
     
     res.json({
       success: true,
@@ -368,4 +616,428 @@ export async function deleteTrainingImage(req: Request, res: Response) {
       error: error.message
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Accept a correction waiting for review, so the next training run uses it,
+ * or reject and delete it
+ */
+export async function reviewTrainingImage(req: Request, res: Response) {
+  const parsed = reviewTrainingImageRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const sample = await findSample(getProfile(res), req.params.id);
+    if (!sample) {
+      return res.status(404).json({
+        success: false,
+        message: 'Training image not found'
+      });
+    }
+    
+    if (sample.source !== 'correction' || sample.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        message: 'Only corrections waiting for review can be accepted or rejected'
+      });
+    }
+    
+    const { accept, label } = parsed.data;
+    if (!accept) {
+      if (sample.imageFilename && fs.existsSync(path.join(TRAINING_DIR, sample.imageFilename))) {
+        fs.unlinkSync(path.join(TRAINING_DIR, sample.imageFilename));
+      }
+      await storage.deleteTrainingSample(sample.id);
+      
+      return res.json({
+        success: true,
+        message: 'Correction rejected',
+        image: null
+      } satisfies ReviewTrainingImageResponse);
+    }
+    
+    const accepted = await storage.updateTrainingSample(sample.id, { status: 'accepted', label: label ?? sample.label });
+    
+    res.json({
+      success: true,
+      message: 'Correction accepted for the next training run',
+      image: toTrainingImage(accepted!)
+    } satisfies ReviewTrainingImageResponse);
+  } catch (error) {
+    console.error('Error reviewing training image:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review training image',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Download the profile's training set as a zip of images, labels and
+ * optionally stroke data
+ */
+export async function exportDataset(req: Request, res: Response) {
+  const parsed = exportDatasetRequestSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const profile = getProfile(res);
+    const samples: DatasetSample[] = [];
+    
+    for (const sample of await getAcceptedSamples(profile)) {
+      const imagePath = sample.imageFilename && path.join(TRAINING_DIR, sample.imageFilename);
+      const image = imagePath && fs.existsSync(imagePath)
+        ? { data: await fs.promises.readFile(imagePath), extension: path.extname(imagePath).toLowerCase() }
+        : null;
+      const strokes = parsed.data.strokes && sample.strokes?.length ? sample.strokes : null;
+      
+      // Stroke-only samples have nothing to export without their strokes
+      if (!image && !strokes) continue;
+      samples.push({ label: sample.label, source: sample.source, image, strokes });
+    }
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="ocr-training-set-${profile}.zip"`);
+    res.send(writeDataset(samples));
+  } catch (error) {
+    console.error('Error exporting training set:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export training set',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Add the samples in an uploaded training set archive to the profile's
+ * training data
+ */
+export async function importDataset(req: Request, res: Response) {
+  if (!req.file) {
+    return res.status(400).json({
+      success: false,
+      message: 'Zip archive is required'
+    });
+  }
+  
+  const parsed = importDatasetRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  let dataset;
+  try {
+    dataset = await readDataset(req.file.buffer, parsed.data);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      message: `Could not read the archive: ${(error as Error).message}`
+    });
+  }
+  
+  // Images written so far, removed again if the import fails
+  const written: string[] = [];
+  
+  try {
+    const profile = getProfile(res);
+    const samples: InsertTrainingSample[] = [];
+    
+    for (const sample of dataset.samples) {
+      let imageFilename: string | undefined;
+      if (sample.image) {
+        imageFilename = `${uuidv4()}-imported${sample.image.extension}`;
+        written.push(path.join(TRAINING_DIR, imageFilename));
+        await fs.promises.writeFile(written[written.length - 1], sample.image.data);
+      }
+      
+      samples.push({
+        label: sample.label,
+        profile,
+        source: sample.source,
+        imageFilename,
+        strokes: sample.strokes ?? undefined
+      });
+    }
+    
+    await storage.createTrainingSamples(samples);
+    
+    res.json({
+      success: true,
+      message: `Imported ${dataset.samples.length} training samples`,
+      format: dataset.format,
+      imported: dataset.samples.length,
+      skipped: dataset.skipped
+    } satisfies ImportDatasetResponse);
+  } catch (error) {
+    console.error('Error importing training set:', error);
+    await Promise.all(written.map(imagePath => fs.promises.rm(imagePath, { force: true })));
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import training set',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * The calibration prompts with how many samples of each the profile has,
+ * and its coverage of the character set
+ */
+export async function getCalibration(req: Request, res: Response) {
+  const parsed = calibrationRequestSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      message: fromZodError(parsed.error).message
+    });
+  }
+  
+  try {
+    const { repetitions } = parsed.data;
+    const { prompts, characters } = calibrationCoverage(await getAcceptedSamples(getProfile(res)));
+    
+    res.json({
+      success: true,
+      repetitions,
+      prompts,
+      characters,
+      remaining: prompts.reduce((sum, prompt) => sum + Math.max(0, repetitions - prompt.captured), 0)
+    } satisfies CalibrationResponse);
+  } catch (error) {
+    console.error('Error getting calibration coverage:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get calibration coverage',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * List the saved versions of the profile's models, newest first
+ */
+export async function getModelVersions(req: Request, res: Response) {
+  try {
+    res.json({
+      success: true,
+      versions: listVersions(getProfile(res)).reverse()
+    } satisfies ModelVersionsResponse);
+  } catch (error) {
+    console.error('Error listing model versions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list model versions',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Compare two versions of the same model
+ */
+export async function compareModelVersions(req: Request, res: Response) {
+  const profile = getProfile(res);
+  const a = findVersion(profile, String(req.query.a || ''));
+  const b = findVersion(profile, String(req.query.b || ''));
+  
+  if (!a || !b) {
+    return res.status(404).json({
+      success: false,
+      message: 'Model version not found'
+    });
+  }
+  
+  if (a.kind !== b.kind) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only versions of the same model can be compared'
+    });
+  }
+  
+  // Changes going from version a to version b
+  const change = (from: number | null, to: number | null) =>
+    from === null || to === null ? null : to - from;
+  
+  res.json({
+    success: true,
+    a,
+    b,
+    accuracyChange: change(a.accuracy, b.accuracy),
+    validationAccuracyChange: change(a.validationAccuracy, b.validationAccuracy),
+    lossChange: change(a.loss, b.loss),
+    samplesChange: b.samples - a.samples
+  } satisfies VersionComparison);
+}
+
+/**
+ * Roll the model back (or forward) to a saved version
+ */
+export async function activateModelVersion(req: Request, res: Response) {
+  const profile = getProfile(res);
+  const version = findVersion(profile, req.params.id);
+  
+  if (!version) {
+    return res.status(404).json({
+      success: false,
+      message: 'Model version not found'
+    });
+  }
+  
+  try {
+    activateVersion(profile, version);
+    
+    res.json({
+      success: true,
+      message: `Version ${version.number} of the ${version.kind} model is now active`
+    });
+  } catch (error) {
+    console.error('Error activating model version:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to activate model version',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * Delete a saved version that is not in use
+ */
+export async function deleteModelVersion(req: Request, res: Response) {
+  const profile = getProfile(res);
+  const version = findVersion(profile, req.params.id);
+  
+  if (!version) {
+    return res.status(404).json({
+      success: false,
+      message: 'Model version not found'
+    });
+  }
+  
+  if (version.active) {
+    return res.status(400).json({
+      success: false,
+      message: 'The active version cannot be deleted, activate another version first'
+    });
+  }
+  
+  try {
+    deleteVersion(profile, version);
+    
+    res.json({
+      success: true,
+      message: 'Model version deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting model version:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete model version',
+      error: (error as Error).message
+    });
+  }
+}
+
+/**
+ * List the profile's training jobs, newest first
+ */
+export async function getTrainingJobs(req: Request, res: Response) {
+  res.json({
+    success: true,
+    jobs: listTrainingJobs(getProfile(res))
+  } satisfies TrainingJobsResponse);
+}
+
+/**
+ * Get the status and progress of a training job
+ */
+export async function getTrainingJob(req: Request, res: Response) {
+  const job = findTrainingJob(req.params.id);
+  if (!job || job.profile !== getProfile(res)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Training job not found'
+    });
+  }
+  
+  res.json({
+    success: true,
+    job
+  } satisfies TrainingJobResponse);
+}
+
+/**
+ * Stream a training job's progress as Server-Sent Events until it finishes.
+ * EventSource can't send the profile header, so the job id alone identifies it.
+ */
+export async function streamTrainingJob(req: Request, res: Response) {
+  const job = findTrainingJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      message: 'Training job not found'
+    });
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  
+  const send = (update: typeof job) => {
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+    if (isFinished(update)) {
+      res.end();
+    }
+  };
+  
+  send(job);
+  if (isFinished(job)) return;
+  
+  const unsubscribe = subscribeToTrainingJob(job.id, send);
+  req.on('close', unsubscribe);
+}
+
+/**
+ * Cancel a queued or running training job
+ */
+export async function cancelTrainingJob(req: Request, res: Response) {
+  const job = findTrainingJob(req.params.id);
+  if (!job || job.profile !== getProfile(res)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Training job not found'
+    });
+  }
+  
+  if (isFinished(job)) {
+    return res.status(400).json({
+      success: false,
+      message: `Training job already ${job.status}`
+    });
+  }
+  
+  cancelJob(job.id);
+  
+  res.json({
+    success: true,
+    message: job.status === 'cancelled' ? 'Training job cancelled' : 'Training job will stop after the current epoch',
+    job
+  } satisfies TrainingJobResponse);
+}
@@ -1,14 +1,16 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertNoteSchema } from "@shared/schema";
+import { insertNoteSchema, addNotePageSchema, reorderNotePagesSchema } from "@shared/schema";
+import { createNotePage, getNotePages } from "@shared/pages";
+import { OCR_API_PREFIX } from "@shared/ocr";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import ocrRoutes from "./routes/ocrRoutes";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register OCR routes
-  app.use('/api/ocr', ocrRoutes);
+  app.use(OCR_API_PREFIX, ocrRoutes);
   // Get all notes
   app.get("/api/notes", async (req, res) => {
     try {
@@ -93,6 +95,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Add a page to a note
+  app.post("/api/notes/:id/pages", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { page, index } = addNotePageSchema.parse(req.body);
+      
+      const note = await storage.getNote(id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      if (page?.id && getNotePages(note).some(existing => existing.id === page.id)) {
+        return res.status(400).json({ message: "Page already exists" });
+      }
+      
+      const updatedNote = await storage.addNotePage(id, createNotePage(page), index);
+      res.status(201).json(updatedNote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Failed to add page" });
+    }
+  });
+
+  // Reorder the pages of a note
+  app.put("/api/notes/:id/pages/order", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { pageIds } = reorderNotePagesSchema.parse(req.body);
+      
+      const note = await storage.getNote(id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      // The new order must contain every existing page exactly once
+      const currentIds = getNotePages(note).map(page => page.id);
+      const isPermutation = pageIds.length === currentIds.length &&
+        new Set(pageIds).size === pageIds.length &&
+        pageIds.every(pageId => currentIds.includes(pageId));
+      
+      if (!isPermutation) {
+        return res.status(400).json({ message: "Page order must list every page exactly once" });
+      }
+      
+      const updatedNote = await storage.reorderNotePages(id, pageIds);
+      res.json(updatedNote);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      res.status(500).json({ message: "Failed to reorder pages" });
+    }
+  });
+
+  // Delete a page from a note
+  app.delete("/api/notes/:id/pages/:pageId", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { pageId } = req.params;
+      
+      const note = await storage.getNote(id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      const pages = getNotePages(note);
+      if (!pages.some(page => page.id === pageId)) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      
+      if (pages.length === 1) {
+        return res.status(400).json({ message: "A note must have at least one page" });
+      }
+      
+      const updatedNote = await storage.deleteNotePage(id, pageId);
+      res.json(updatedNote);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete page" });
+    }
+  });
+
   // Delete a note
   app.delete("/api/notes/:id", async (req, res) => {
     try {
@@ -3,14 +3,32 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { OCR_PROFILE_HEADER, ocrPaths } from '@shared/ocr';
 import * as ocrController from '../controllers/ocrController';
+import { BASE_PROFILE, PROFILE_ID_PATTERN } from '../services/modelStore';
 
 const router = express.Router();
 
-// Set up multer for file storage
+// Resolve whose models and training data a request uses
+router.use((req, res, next) => {
+  const profile = req.get(OCR_PROFILE_HEADER) || BASE_PROFILE;
+  
+  if (!PROFILE_ID_PATTERN.test(profile)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid OCR profile id'
+    });
+  }
+  
+  res.locals.profile = profile;
+  next();
+});
+
+// Set up multer for file storage, in the training directory the controller
+// reads training images from
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    const uploadPath = path.join(process.cwd(), 'ocr-training-data');
+    const uploadPath = path.join(process.cwd(), 'uploads/training');
     if (!fs.existsSync(uploadPath)) {
       fs.mkdirSync(uploadPath, { recursive: true });
     }
@@ -37,31 +55,91 @@ const upload = multer({
   }
 });
 
+// Training set archives are read in memory rather than stored
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.zip') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only zip archives are allowed'));
+    }
+  }
+});
+
 // Initialize OCR model
-router.post('/initialize', ocrController.initializeModel);
+router.post(ocrPaths.initialize, ocrController.initializeModel);
 
 // Get model info
-router.get('/model-info', ocrController.getModelInfo);
+router.get(ocrPaths.modelInfo, ocrController.getModelInfo);
 
 // Upload training image
-router.post('/training-image', upload.single('image'), ocrController.uploadTrainingImage);
+router.post(ocrPaths.uploadTrainingImage, upload.single('image'), ocrController.uploadTrainingImage);
 
 // Train model with image
-router.post('/train', ocrController.trainWithImage);
+router.post(ocrPaths.train, ocrController.trainWithImage);
 
 // Train on batch of images
-router.post('/train-batch', ocrController.trainBatch);
+router.post(ocrPaths.trainBatch, ocrController.trainBatch);
+
+// Evaluate the model on held-out training images
+router.post(ocrPaths.evaluate, ocrController.evaluate);
+
+// List background training jobs
+router.get(ocrPaths.jobs, ocrController.getTrainingJobs);
+
+// Get a training job's status
+router.get(ocrPaths.job, ocrController.getTrainingJob);
+
+// Stream a training job's progress (Server-Sent Events)
+router.get(ocrPaths.jobEvents, ocrController.streamTrainingJob);
+
+// Cancel a training job
+router.post(ocrPaths.cancelJob, ocrController.cancelTrainingJob);
 
 // Recognize text from canvas
-router.post('/recognize', ocrController.recognizeFromCanvas);
+router.post(ocrPaths.recognize, ocrController.recognizeFromCanvas);
+
+// Recognize text from stroke data
+router.post(ocrPaths.recognizeStrokes, ocrController.recognizeStrokes);
+
+// Store a stroke sample and train the stroke model
+router.post(ocrPaths.trainStrokes, ocrController.trainWithStrokes);
 
 // Get list of training images
-router.get('/training-images', ocrController.getTrainingImages);
+router.get(ocrPaths.trainingImages, ocrController.getTrainingImages);
 
 // Get specific training image
-router.get('/training-image/:id', ocrController.getTrainingImage);
+router.get(ocrPaths.trainingImage, ocrController.getTrainingImage);
 
 // Delete training image
-router.delete('/training-image/:id', ocrController.deleteTrainingImage);
+router.delete(ocrPaths.trainingImage, ocrController.deleteTrainingImage);
+
+// Accept or reject a correction waiting for review
+router.post(ocrPaths.reviewTrainingImage, ocrController.reviewTrainingImage);
+
+// Export the training set as a zip
+router.get(ocrPaths.exportDataset, ocrController.exportDataset);
+
+// Import a training set from a zip
+router.post(ocrPaths.importDataset, archiveUpload.single('archive'), ocrController.importDataset);
+
+// Calibration prompts and character coverage
+router.get(ocrPaths.calibration, ocrController.getCalibration);
+
+// List saved model versions
+router.get(ocrPaths.versions, ocrController.getModelVersions);
+
+// Compare two model versions
+router.get(ocrPaths.compareVersions, ocrController.compareModelVersions);
+
+// Make a saved version the active model
+router.post(ocrPaths.activateVersion, ocrController.activateModelVersion);
+
+// Delete a saved model version
+router.delete(ocrPaths.version, ocrController.deleteModelVersion);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,174 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { DEFAULT_AUGMENTATION, type AugmentationOptions } from '@shared/ocr';
+
+/**
+ * Data augmentation for the OCR image models. Learners only draw a few samples
+ * per character, so every epoch the model also sees randomly distorted copies
+ * of them: rotated, slanted, shifted, warped, thicker or thinner and noisier.
+ *
+ * Works on batches of grayscale images with values 0-1, ink dark on white.
+ */
+
+// Options and their defaults are part of the OCR API contract, as the train
+// endpoints take them from the client
+export { DEFAULT_AUGMENTATION, type AugmentationOptions };
+
+const ELASTIC_SMOOTHING = 4; // Gaussian sigma of the displacement field, in pixels
+const PAPER = 1;             // Value of blank paper, used to fill uncovered pixels
+
+const randomBetween = (max: number) => (Math.random() * 2 - 1) * max;
+
+/**
+ * Rotate, slant and shift each image by its own random amount around its center
+ */
+function affineTransform(images: tf.Tensor4D, options: AugmentationOptions): tf.Tensor4D {
+  const [count, height, width] = images.shape;
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+
+  // tf.image.transform maps each output pixel to the input pixel it samples.
+  // Images are transformed one by one, batched transforms are wrong past the
+  // first image on some backends.
+  const transformed = (tf.split(images, count) as tf.Tensor4D[]).map(image => {
+    const angle = (randomBetween(options.rotation) * Math.PI) / 180;
+    const shear = randomBetween(options.slant);
+    const tx = randomBetween(options.translation) * Math.min(width, height);
+    const ty = randomBetween(options.translation) * Math.min(width, height);
+
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const a0 = cos;
+    const a1 = -sin + shear * cos;
+    const b0 = sin;
+    const b1 = cos + shear * sin;
+    const transform = [a0, a1, cx - a0 * cx - a1 * cy - tx, b0, b1, cy - b0 * cx - b1 * cy - ty, 0, 0];
+    return tf.image.transform(image, tf.tensor2d([transform]), 'bilinear', 'constant', PAPER);
+  });
+
+  return tf.concat(transformed) as tf.Tensor4D;
+}
+
+function gaussianKernel(sigma: number): tf.Tensor4D {
+  const radius = Math.ceil(sigma * 2);
+  const weights = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const kernel = weights.flatMap(wy => weights.map(wx => (wx * wy) / (sum * sum)));
+  return tf.tensor4d(kernel, [radius * 2 + 1, radius * 2 + 1, 1, 1]);
+}
+
+// A smooth random displacement field per image, scaled so the largest move is `strength` pixels
+function displacementField(count: number, height: number, width: number, strength: number): tf.Tensor3D {
+  const noise = tf.randomUniform([count, height, width, 1], -1, 1);
+  const smooth = tf.conv2d(noise as tf.Tensor4D, gaussianKernel(ELASTIC_SMOOTHING), 1, 'same');
+  const peak = tf.max(tf.abs(smooth), [1, 2, 3], true).add(1e-6);
+  return smooth.div(peak).mul(strength).squeeze([3]) as tf.Tensor3D;
+}
+
+/**
+ * Sample each image at moved pixel positions with bilinear interpolation,
+ * reading blank paper outside the image
+ */
+function sampleBilinear(images: tf.Tensor4D, xs: tf.Tensor3D, ys: tf.Tensor3D): tf.Tensor4D {
+  const [count, height, width] = images.shape;
+
+  // A border of paper means clamped coordinates outside the image read blank
+  const padded = tf.pad(images, [[0, 0], [1, 1], [1, 1], [0, 0]], PAPER).reshape([-1]);
+  const paddedWidth = width + 2;
+  const imageSize = (height + 2) * paddedWidth;
+  const offsets = tf.range(0, count).mul(imageSize).reshape([count, 1, 1]);
+
+  const x = xs.clipByValue(-1, width).add(1);
+  const y = ys.clipByValue(-1, height).add(1);
+  const x0 = x.floor().clipByValue(0, width);
+  const y0 = y.floor().clipByValue(0, height);
+  const fx = x.sub(x0);
+  const fy = y.sub(y0);
+
+  const read = (px: tf.Tensor, py: tf.Tensor) =>
+    tf.gather(padded, py.mul(paddedWidth).add(px).add(offsets).toInt().reshape([-1])).reshape([count, height, width]);
+
+  const top = read(x0, y0).mul(tf.sub(1, fx)).add(read(x0.add(1), y0).mul(fx));
+  const bottom = read(x0, y0.add(1)).mul(tf.sub(1, fx)).add(read(x0.add(1), y0.add(1)).mul(fx));
+  return top.mul(tf.sub(1, fy)).add(bottom.mul(fy)).expandDims(3) as tf.Tensor4D;
+}
+
+/**
+ * Elastic distortion (Simard et al.): move every pixel along a smooth random
+ * field, like the wobble between two attempts at the same letter
+ */
+function elasticDistort(images: tf.Tensor4D, strength: number): tf.Tensor4D {
+  const [count, height, width] = images.shape;
+  const gridX = tf.range(0, width).reshape([1, 1, width]).tile([count, height, 1]) as tf.Tensor3D;
+  const gridY = tf.range(0, height).reshape([1, height, 1]).tile([count, 1, width]) as tf.Tensor3D;
+
+  return sampleBilinear(
+    images,
+    gridX.add(displacementField(count, height, width, strength)),
+    gridY.add(displacementField(count, height, width, strength))
+  );
+}
+
+/**
+ * Make each image's strokes up to `maxPixels` thicker or thinner. Ink is dark,
+ * so thickening is a min filter and thinning a max filter.
+ */
+function jitterStrokeWidth(images: tf.Tensor4D, maxPixels: number): tf.Tensor4D {
+  const count = images.shape[0];
+  const amounts = Array.from({ length: count }, () => Math.round(randomBetween(maxPixels)));
+  let result = images;
+
+  for (let pixels = 1; pixels <= maxPixels; pixels++) {
+    const size = pixels * 2 + 1;
+    const thicker = tf.neg(tf.maxPool(tf.neg(images), size, 1, 'same'));
+    const thinner = tf.maxPool(images, size, 1, 'same');
+    const pick = (amount: number) => tf.tensor4d(amounts.map(a => a === amount ? 1 : 0), [count, 1, 1, 1], 'bool');
+
+    result = tf.where(pick(-pixels), thinner, tf.where(pick(pixels), thicker, result)) as tf.Tensor4D;
+  }
+
+  return result;
+}
+
+/**
+ * Randomly distort every image of a batch
+ */
+export function augmentBatch(images: tf.Tensor4D, options: AugmentationOptions = DEFAULT_AUGMENTATION): tf.Tensor4D {
+  return tf.tidy(() => {
+    let result = affineTransform(images, options);
+    if (options.elastic > 0) result = elasticDistort(result, options.elastic);
+    if (options.strokeWidth > 0) result = jitterStrokeWidth(result, Math.round(options.strokeWidth));
+    if (options.noise > 0) result = result.add(tf.randomNormal(result.shape, 0, options.noise));
+    return result.clipByValue(0, 1) as tf.Tensor4D;
+  });
+}
+
+/**
+ * The batches of one epoch: every sample once as it is plus `copies` distorted
+ * times, in random order. Called again for every epoch, so each epoch sees
+ * new distortions.
+ */
+export function* augmentedBatches(
+  xs: tf.Tensor4D,
+  ys: tf.Tensor2D,
+  batchSize: number,
+  options: AugmentationOptions = DEFAULT_AUGMENTATION
+): Generator<{ xs: tf.Tensor4D; ys: tf.Tensor2D }> {
+  const count = xs.shape[0];
+  const order = Array.from(tf.util.createShuffledIndices(count * (options.copies + 1)));
+
+  for (let start = 0; start < order.length; start += batchSize) {
+    const batch = order.slice(start, start + batchSize);
+
+    yield tf.tidy(() => {
+      const indices = tf.tensor1d(batch.map(i => i % count), 'int32');
+      const images = tf.gather(xs, indices);
+      // Indices past the sample count are the distorted copies
+      const distorted = tf.tensor4d(batch.map(i => i >= count ? 1 : 0), [batch.length, 1, 1, 1], 'bool');
+
+      return {
+        xs: tf.where(distorted, augmentBatch(images, options), images) as tf.Tensor4D,
+        ys: tf.gather(ys, indices)
+      };
+    });
+  }
+}
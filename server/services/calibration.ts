@@ -0,0 +1,61 @@
+import type { TrainingSample } from '@shared/schema';
+import type { CalibrationPrompt, CharacterCoverage } from '@shared/ocr';
+import { CHAR_SET } from './ocrModel';
+
+/**
+ * Guided calibration: instead of the user choosing what to write, a session
+ * prompts for every character the models read, plus letters and words
+ * dyslexic writers tend to mix up, a few times each. Coverage is counted from
+ * the profile's stored samples, so a session can be picked up where it was left.
+ */
+
+// Written one after another so the model sees the differences side by side
+export const CONFUSION_GROUPS: string[][] = [
+  ['b', 'd', 'p', 'q'],
+  ['m', 'w'],
+  ['n', 'u'],
+  ['6', '9'],
+  ['was', 'saw'],
+  ['on', 'no'],
+  ['dog', 'god'],
+  ['form', 'from']
+];
+
+// Confusion groups first, then the rest of the character set
+export function calibrationTargets(): Array<{ text: string; group: string[] | null }> {
+  const grouped = CONFUSION_GROUPS.flatMap(group => group.map(text => ({ text, group })));
+  const covered = new Set(grouped.map(target => target.text));
+  const rest = Array.from(CHAR_SET)
+    .filter(char => !covered.has(char))
+    .map(text => ({ text, group: null }));
+
+  return [...grouped, ...rest];
+}
+
+/**
+ * How many samples of each calibration target and each character the profile
+ * has. Characters count every sample whose label contains them.
+ */
+export function calibrationCoverage(samples: TrainingSample[]): {
+  prompts: CalibrationPrompt[];
+  characters: CharacterCoverage[];
+} {
+  const labelCounts = new Map<string, number>();
+  const charCounts = new Map<string, number>();
+
+  for (const sample of samples) {
+    labelCounts.set(sample.label, (labelCounts.get(sample.label) || 0) + 1);
+    for (const char of Array.from(new Set(sample.label))) {
+      charCounts.set(char, (charCounts.get(char) || 0) + 1);
+    }
+  }
+
+  return {
+    prompts: calibrationTargets().map(({ text, group }) => ({
+      text,
+      confusableWith: group ? group.filter(other => other !== text) : [],
+      captured: labelCounts.get(text) || 0
+    })),
+    characters: Array.from(CHAR_SET).map(char => ({ char, samples: charCounts.get(char) || 0 }))
+  };
+}
@@ -0,0 +1,182 @@
+import * as tf from '@tensorflow/tfjs-node';
+
+/**
+ * Connectionist Temporal Classification (CTC) for the sequence OCR model.
+ *
+ * The model emits one probability distribution per time step (a column of the
+ * line image) over the charset plus a "blank" class. CTC sums over every way
+ * the label can be spread across those time steps, so training only needs the
+ * full string label and not where each character is.
+ */
+
+// Stands in for log(0); large enough to vanish in logSumExp without producing NaN
+const LOG_ZERO = -1e9;
+
+// A decoded character and the time step it was emitted at
+export interface CtcCharacter {
+  index: number;
+  timestep: number;
+  confidence: number;
+}
+
+export interface CtcDecoding {
+  characters: CtcCharacter[];
+  confidence: number;
+}
+
+/**
+ * Mean CTC loss over a batch.
+ *
+ * @param probs   Softmax output of the model, shape [batch, time, classes]
+ * @param labels  Class indices of each label (without blanks)
+ * @param blank   Index of the blank class
+ */
+export function ctcLoss(probs: tf.Tensor3D, labels: number[][], blank: number): tf.Scalar {
+  return tf.tidy(() => {
+    const [batchSize, timesteps, numClasses] = probs.shape;
+    const maxLength = Math.max(1, ...labels.map(label => label.length));
+    const extendedLength = maxLength * 2 + 1;
+
+    // Extended labels interleave blanks: _ a _ b _ c _ (padded with blanks)
+    const extended = labels.map(label => {
+      const result = new Array<number>(extendedLength).fill(blank);
+      label.forEach((index, i) => { result[i * 2 + 1] = index; });
+      return result;
+    });
+
+    // A path may skip the blank between two different characters
+    const skipMask = extended.map(ext => ext.map((index, s) =>
+      s >= 2 && index !== blank && index !== ext[s - 2] ? 0 : LOG_ZERO
+    ));
+
+    // Paths must start on the first blank or character and end on the last ones
+    const startMask = Array.from({ length: extendedLength }, (_, s) => s < 2 ? 0 : LOG_ZERO);
+    const endMask = labels.map(label => Array.from({ length: extendedLength }, (_, s) =>
+      s === label.length * 2 || s === label.length * 2 - 1 ? 0 : LOG_ZERO
+    ));
+
+    // Emission log-probabilities of each extended label position: [batch, time, extended]
+    const logProbs = tf.log(tf.add(probs, 1e-8));
+    const selector = tf.oneHot(tf.tensor2d(extended, [batchSize, extendedLength], 'int32'), numClasses);
+    const emissions = tf.matMul(logProbs, selector.toFloat(), false, true);
+
+    const skip = tf.tensor2d(skipMask);
+    const pad1 = tf.fill([batchSize, 1], LOG_ZERO);
+    const pad2 = tf.fill([batchSize, 2], LOG_ZERO);
+
+    // Forward algorithm in log space
+    let alpha = tf.add(
+      tf.squeeze(tf.slice(emissions, [0, 0, 0], [batchSize, 1, extendedLength]), [1]),
+      tf.tensor1d(startMask)
+    ) as tf.Tensor2D;
+
+    for (let t = 1; t < timesteps; t++) {
+      const stay = alpha;
+      const advance = tf.concat([pad1, tf.slice(alpha, [0, 0], [batchSize, extendedLength - 1])], 1);
+      const jump = tf.add(
+        tf.concat([pad2, tf.slice(alpha, [0, 0], [batchSize, extendedLength - 2])], 1),
+        skip
+      );
+      const emission = tf.squeeze(tf.slice(emissions, [0, t, 0], [batchSize, 1, extendedLength]), [1]);
+      alpha = tf.add(tf.logSumExp(tf.stack([stay, advance, jump]), 0), emission) as tf.Tensor2D;
+    }
+
+    const logLikelihood = tf.logSumExp(tf.add(alpha, tf.tensor2d(endMask)), 1);
+    return tf.neg(tf.mean(logLikelihood)) as tf.Scalar;
+  });
+}
+
+/**
+ * Greedy (best path) decoding: take the most likely class at every time step,
+ * merge repeats and drop blanks
+ *
+ * @param probs  Probabilities of one sequence, [time][classes]
+ */
+export function greedyDecode(probs: number[][], blank: number): CtcDecoding {
+  const characters: CtcCharacter[] = [];
+  let previous = blank;
+
+  probs.forEach((step, timestep) => {
+    let best = 0;
+    step.forEach((p, i) => { if (p > step[best]) best = i; });
+
+    if (best !== blank && best !== previous) {
+      characters.push({ index: best, timestep, confidence: step[best] });
+    } else if (best !== blank && step[best] > characters[characters.length - 1].confidence) {
+      // A repeated frame of the same character; keep its most confident frame
+      characters[characters.length - 1] = { index: best, timestep, confidence: step[best] };
+    }
+    previous = best;
+  });
+
+  return { characters, confidence: averageConfidence(characters) };
+}
+
+interface Beam {
+  characters: CtcCharacter[];
+  blankScore: number;    // Probability of the prefix with the path ending in blank
+  characterScore: number; // Probability of the prefix with the path ending in its last character
+}
+
+/**
+ * Prefix beam search: keeps the `beamWidth` most probable label prefixes,
+ * summing over the alignments that produce the same prefix
+ */
+export function beamSearchDecode(probs: number[][], blank: number, beamWidth = 8): CtcDecoding {
+  const keyOf = (characters: CtcCharacter[]) => characters.map(c => c.index).join(',');
+  const total = (beam: Beam) => beam.blankScore + beam.characterScore;
+
+  let beams = new Map<string, Beam>([['', { characters: [], blankScore: 1, characterScore: 0 }]]);
+
+  probs.forEach((step, timestep) => {
+    const next = new Map<string, Beam>();
+    const entry = (characters: CtcCharacter[]) => {
+      const key = keyOf(characters);
+      if (!next.has(key)) next.set(key, { characters, blankScore: 0, characterScore: 0 });
+      return next.get(key)!;
+    };
+
+    beams.forEach(beam => {
+      // Emit a blank: the prefix stays the same
+      entry(beam.characters).blankScore += total(beam) * step[blank];
+
+      const last = beam.characters[beam.characters.length - 1];
+
+      step.forEach((p, index) => {
+        if (index === blank || p < 1e-4) return;
+
+        if (last && last.index === index) {
+          // Repeating the last character without a blank in between collapses into it
+          entry(beam.characters).characterScore += beam.characterScore * p;
+          // After a blank it starts a new, doubled character
+          if (beam.blankScore > 0) {
+            const doubled = entry([...beam.characters, { index, timestep, confidence: p }]);
+            doubled.characterScore += beam.blankScore * p;
+          }
+        } else {
+          const extended = entry([...beam.characters, { index, timestep, confidence: p }]);
+          extended.characterScore += total(beam) * p;
+        }
+      });
+    });
+
+    // Keep the most probable prefixes, renormalised so long lines don't underflow
+    const kept = Array.from(next.entries())
+      .sort(([, a], [, b]) => total(b) - total(a))
+      .slice(0, beamWidth);
+    const norm = total(kept[0][1]) || 1;
+    kept.forEach(([, beam]) => {
+      beam.blankScore /= norm;
+      beam.characterScore /= norm;
+    });
+    beams = new Map(kept);
+  });
+
+  const best = Array.from(beams.values()).sort((a, b) => total(b) - total(a))[0];
+  return { characters: best.characters, confidence: averageConfidence(best.characters) };
+}
+
+function averageConfidence(characters: CtcCharacter[]): number {
+  if (characters.length === 0) return 0;
+  return characters.reduce((sum, c) => sum + c.confidence, 0) / characters.length;
+}
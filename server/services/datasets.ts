@@ -0,0 +1,332 @@
+import * as tf from '@tensorflow/tfjs-node';
+import AdmZip from 'adm-zip';
+import path from 'path';
+import zlib from 'zlib';
+import { z } from 'zod';
+import { strokePointSchema, type StrokePoint } from '@shared/schema';
+import { trainingSampleSourceSchema, type DatasetFormat, type TrainingSampleSource } from '@shared/ocr';
+
+/**
+ * Zip archives of OCR training samples, for backing up and sharing a training
+ * set or bootstrapping a model from a public handwriting dataset.
+ *
+ * Exports use the native layout:
+ *
+ *   manifest.json          { format, version, exportedAt, samples: [{ label, source, image, strokes }] }
+ *   images/<id>.<ext>      Sample images
+ *   strokes/<id>.json      Stroke data of drawn samples, if included
+ *
+ * Imports also understand common dataset layouts:
+ *
+ *   folders   <label>/<image>, one folder per label (at any depth)
+ *   csv       A CSV manifest of image paths and labels next to the images
+ *   idx       EMNIST/MNIST idx files: *-images-idx3-ubyte and *-labels-idx1-ubyte
+ *             (optionally gzipped), with an optional *-mapping.txt of label codes
+ */
+
+const MANIFEST_FILE = 'manifest.json';
+const NATIVE_FORMAT = 'dyslexinote-ocr-dataset';
+const NATIVE_VERSION = 1;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.bmp', '.gif'];
+
+// Limits on what an archive may unpack to, checked before anything is unpacked
+const MAX_ARCHIVE_ENTRIES = 100000;
+const MAX_UNPACKED_SIZE = 1024 * 1024 * 1024; // 1 GB across all entries
+
+// Label codes of EMNIST 'byclass' (and 'digits'/MNIST, which only use 0-9),
+// used when an archive has no mapping file
+const EMNIST_CLASSES = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// A sample read from or written to an archive
+export interface DatasetSample {
+  label: string;
+  source: TrainingSampleSource;
+  image: { data: Buffer; extension: string } | null;
+  strokes: StrokePoint[] | null;
+}
+
+export interface ImportOptions {
+  format: DatasetFormat | 'auto';
+  limit: number;          // Stop after this many samples
+  transpose?: boolean;    // Transpose idx images, as EMNIST stores them; defaults to true for EMNIST files
+}
+
+export interface ImportResult {
+  format: DatasetFormat;
+  samples: DatasetSample[];
+  skipped: number;        // Entries that could not be read
+}
+
+const manifestSchema = z.object({
+  format: z.literal(NATIVE_FORMAT),
+  version: z.number(),
+  samples: z.array(z.object({
+    label: z.string().min(1),
+    source: trainingSampleSourceSchema.default('uploaded'),
+    image: z.string().nullable(),
+    strokes: z.string().nullable().optional()
+  }))
+});
+
+const isImage = (name: string) => IMAGE_EXTENSIONS.includes(path.posix.extname(name).toLowerCase());
+
+/**
+ * Write samples to a zip archive in the native layout
+ */
+export function writeDataset(samples: DatasetSample[]): Buffer {
+  const zip = new AdmZip();
+
+  const entries = samples.map((sample, index) => {
+    const id = String(index + 1).padStart(6, '0');
+    const image = sample.image ? `images/${id}${sample.image.extension}` : null;
+    const strokes = sample.strokes ? `strokes/${id}.json` : null;
+
+    if (image) zip.addFile(image, sample.image!.data);
+    if (strokes) zip.addFile(strokes, Buffer.from(JSON.stringify(sample.strokes)));
+
+    return { label: sample.label, source: sample.source, image, strokes };
+  });
+
+  const manifest = {
+    format: NATIVE_FORMAT,
+    version: NATIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    samples: entries
+  };
+  zip.addFile(MANIFEST_FILE, Buffer.from(JSON.stringify(manifest, null, 2)));
+
+  return zip.toBuffer();
+}
+
+/**
+ * Read the samples in a zip archive, detecting its layout unless one is given
+ */
+export async function readDataset(archive: Buffer, options: ImportOptions): Promise<ImportResult> {
+  const zip = new AdmZip(archive);
+  const entries = zip.getEntries()
+    .filter(entry => !entry.isDirectory && !entry.entryName.startsWith('__MACOSX/'));
+
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`The archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+  }
+  // Entries are unpacked to at most the size in their header, so the headers can be trusted
+  if (entries.reduce((total, entry) => total + entry.header.size, 0) > MAX_UNPACKED_SIZE) {
+    throw new Error(`The archive unpacks to more than ${MAX_UNPACKED_SIZE / (1024 * 1024)} MB`);
+  }
+
+  const files = new Map(entries.map(entry => [entry.entryName, entry] as const));
+
+  const format = options.format === 'auto' ? detectFormat(Array.from(files.keys())) : options.format;
+  const read = (name: string) => files.get(name)?.getData() ?? null;
+
+  switch (format) {
+    case 'native':
+      return { format, ...readNative(read, options.limit) };
+    case 'idx':
+      return { format, ...await readIdx(Array.from(files.keys()), read, options) };
+    case 'csv':
+      return { format, ...readCsv(Array.from(files.keys()), read, options.limit) };
+    case 'folders':
+      return { format, ...readFolders(Array.from(files.keys()), read, options.limit) };
+  }
+}
+
+function detectFormat(names: string[]): DatasetFormat {
+  if (names.includes(MANIFEST_FILE)) return 'native';
+  if (names.some(name => /idx3-ubyte(\.gz)?$/.test(name))) return 'idx';
+  if (names.some(name => name.toLowerCase().endsWith('.csv'))) return 'csv';
+  return 'folders';
+}
+
+type ReadFile = (name: string) => Buffer | null;
+
+function readNative(read: ReadFile, limit: number) {
+  const manifestData = read(MANIFEST_FILE);
+  const manifest = manifestSchema.safeParse(manifestData && JSON.parse(manifestData.toString('utf8')));
+  if (!manifest.success) {
+    throw new Error('The archive has no valid manifest.json');
+  }
+
+  const samples: DatasetSample[] = [];
+  let skipped = 0;
+
+  for (const entry of manifest.data.samples.slice(0, limit)) {
+    const imageData = entry.image && isImage(entry.image) ? read(entry.image) : null;
+    const strokesData = entry.strokes ? read(entry.strokes) : null;
+    const strokes = strokesData
+      ? z.array(strokePointSchema).safeParse(JSON.parse(strokesData.toString('utf8')))
+      : null;
+
+    if (!imageData && !strokes?.success) {
+      skipped++;
+      continue;
+    }
+
+    samples.push({
+      label: entry.label,
+      source: entry.source,
+      image: imageData ? { data: imageData, extension: path.posix.extname(entry.image!).toLowerCase() } : null,
+      strokes: strokes?.success ? strokes.data : null
+    });
+  }
+
+  return { samples, skipped };
+}
+
+// A sample from an image file in the archive
+function imageSample(name: string, label: string, read: ReadFile): DatasetSample | null {
+  const data = read(name);
+  return data && label
+    ? { label, source: 'uploaded', image: { data, extension: path.posix.extname(name).toLowerCase() }, strokes: null }
+    : null;
+}
+
+function readFolders(names: string[], read: ReadFile, limit: number) {
+  const samples: DatasetSample[] = [];
+  let skipped = 0;
+
+  for (const name of names.filter(isImage)) {
+    if (samples.length >= limit) break;
+
+    // The label is the name of the folder the image is in
+    const label = path.posix.basename(path.posix.dirname(name));
+    const sample = label !== '.' ? imageSample(name, label, read) : null;
+    if (sample) samples.push(sample); else skipped++;
+  }
+
+  return { samples, skipped };
+}
+
+// Split CSV text into rows of fields, handling quoted fields
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+function readCsv(names: string[], read: ReadFile, limit: number) {
+  const csvName = names.find(name => name.toLowerCase().endsWith('.csv'))!;
+  const rows = parseCsv(read(csvName)!.toString('utf8'));
+  const baseDir = path.posix.dirname(csvName);
+
+  // Use the header to find the columns if there is one, otherwise assume image,label
+  const header = rows[0].map(value => value.trim().toLowerCase());
+  let imageColumn = header.findIndex(value => ['file', 'filename', 'image', 'path', 'image_path'].includes(value));
+  let labelColumn = header.findIndex(value => ['label', 'text', 'transcription', 'char', 'character'].includes(value));
+  if (imageColumn >= 0 && labelColumn >= 0) {
+    rows.shift();
+  } else {
+    imageColumn = 0;
+    labelColumn = 1;
+  }
+
+  const samples: DatasetSample[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    if (samples.length >= limit) break;
+
+    const file = (row[imageColumn] || '').trim();
+    const name = path.posix.normalize(path.posix.join(baseDir, file));
+    const sample = isImage(file) ? imageSample(name, (row[labelColumn] || '').trim(), read) : null;
+    if (sample) samples.push(sample); else skipped++;
+  }
+
+  return { samples, skipped };
+}
+
+// Read an idx file's dimensions and data, unzipping it if needed
+function parseIdx(data: Buffer, name: string): { dims: number[]; values: Buffer } {
+  const raw = name.endsWith('.gz') ? zlib.gunzipSync(data, { maxOutputLength: MAX_UNPACKED_SIZE }) : data;
+  const dimCount = raw[3];
+  const dims = Array.from({ length: dimCount }, (_, i) => raw.readUInt32BE(4 + i * 4));
+  return { dims, values: raw.subarray(4 + dimCount * 4) };
+}
+
+async function readIdx(names: string[], read: ReadFile, options: ImportOptions) {
+  // Archives like EMNIST's hold several splits; read the first one, pairing
+  // its images with the labels and mapping of the same split
+  const imagesName = names.find(name => /idx3-ubyte(\.gz)?$/.test(name));
+  const split = imagesName?.replace(/[-.]images?[-.]idx3-ubyte(\.gz)?$/, '');
+  const labelsName = names.find(name => /idx1-ubyte(\.gz)?$/.test(name) && name.startsWith(`${split}-labels`))
+    || names.find(name => /idx1-ubyte(\.gz)?$/.test(name));
+  if (!imagesName || !labelsName) {
+    throw new Error('The archive needs both an idx3 images file and an idx1 labels file');
+  }
+
+  const images = parseIdx(read(imagesName)!, imagesName);
+  const labels = parseIdx(read(labelsName)!, labelsName);
+  const [count, height, width] = images.dims;
+
+  // Label codes map to characters through the mapping file ('<code> <char code>' per line) if there is one
+  const mappingName = names.find(name => name === `${split!.replace(/-(train|test)$/, '')}-mapping.txt`)
+    || names.find(name => name.endsWith('mapping.txt'));
+  const mapping = new Map<number, string>();
+  if (mappingName) {
+    for (const line of read(mappingName)!.toString('utf8').split('\n')) {
+      const [code, charCode] = line.trim().split(/\s+/).map(Number);
+      if (!isNaN(code) && !isNaN(charCode)) mapping.set(code, String.fromCharCode(charCode));
+    }
+  }
+
+  const transpose = options.transpose ?? /emnist/i.test(imagesName);
+  const samples: DatasetSample[] = [];
+  let skipped = 0;
+
+  for (let i = 0; i < Math.min(count, labels.dims[0]); i++) {
+    if (samples.length >= options.limit) break;
+
+    const code = labels.values[i];
+    const label = mappingName ? mapping.get(code) : EMNIST_CLASSES[code];
+    if (!label) {
+      skipped++;
+      continue;
+    }
+
+    // idx images are light ink on black; store them dark on white like the other samples
+    const image = tf.tidy(() => {
+      const pixels = tf.tensor3d(images.values.subarray(i * height * width, (i + 1) * height * width), [height, width, 1], 'int32');
+      return tf.sub(255, transpose ? pixels.transpose([1, 0, 2]) : pixels) as tf.Tensor3D;
+    });
+    const data = Buffer.from(await tf.node.encodePng(image));
+    image.dispose();
+
+    samples.push({ label, source: 'uploaded', image: { data, extension: '.png' }, strokes: null });
+  }
+
+  return { samples, skipped };
+}
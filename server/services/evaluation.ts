@@ -0,0 +1,174 @@
+import type { Confusion, Evaluation } from '@shared/ocr';
+import * as ocrModel from './ocrModel';
+import { BASE_PROFILE } from './modelStore';
+
+/**
+ * Hold-out evaluation for the OCR models: a fixed share of the training images
+ * is kept out of training and used to measure how well the model reads
+ * handwriting it hasn't seen, per character and for easily confused letters.
+ */
+
+const VALIDATION_SHARE = 0.2;      // Share of the examples held out for validation
+const MIN_SPLIT_SIZE = 5;          // Smaller sets are used for training only
+
+// Letters dyslexic writers (and the model) tend to mix up
+export const CONFUSABLE_PAIRS: Array<[string, string]> = [['b', 'd'], ['p', 'q'], ['m', 'w']];
+
+// FNV-1a, so an example lands in the same split every time
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split examples into training and validation sets. The split is stable: an
+ * example stays on the same side as the set grows, so results stay comparable
+ * between training runs.
+ */
+export function splitTrainValidation<T>(
+  examples: T[],
+  key: (example: T) => string,
+  validationShare: number = VALIDATION_SHARE
+): { train: T[]; validation: T[] } {
+  if (examples.length < MIN_SPLIT_SIZE) {
+    return { train: examples, validation: [] };
+  }
+
+  const train: T[] = [];
+  const validation: T[] = [];
+  examples.forEach(example => {
+    if ((hashKey(key(example)) % 1000) / 1000 < validationShare) {
+      validation.push(example);
+    } else {
+      train.push(example);
+    }
+  });
+
+  // Never hold out everything
+  if (train.length === 0) {
+    train.push(validation.pop()!);
+  }
+
+  return { train, validation };
+}
+
+/**
+ * Align a prediction with its label by edit distance, returning the expected
+ * character each predicted character stands for. Missed characters are paired
+ * with '' and inserted ones are dropped.
+ */
+function alignCharacters(expected: string, predicted: string): Array<[string, string]> {
+  const a = Array.from(expected);
+  const b = Array.from(predicted);
+  const distance = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      distance[i][j] = Math.min(
+        distance[i - 1][j] + 1,
+        distance[i][j - 1] + 1,
+        distance[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+  }
+
+  // Walk back from the end, preferring substitutions so confusions are counted
+  const pairs: Array<[string, string]> = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0) {
+    if (j > 0 && distance[i][j] === distance[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      pairs.push([a[i - 1], b[j - 1]]);
+      i--;
+      j--;
+    } else if (distance[i][j] === distance[i - 1][j] + 1) {
+      pairs.push([a[i - 1], '']);
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+// Read an example the way the active model would be used on it
+async function predictLabel(imagePath: string, label: string, profile: string): Promise<string> {
+  const { modelType } = ocrModel.getModelConfig(profile);
+
+  // Single characters are classified whole, like the character model is trained
+  if (modelType === 'character' && Array.from(label).length === 1) {
+    const tensor = await ocrModel.preprocessImage(imagePath);
+    try {
+      const [best] = await ocrModel.recognizeText(tensor, 1, profile);
+      return best?.text || '';
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  const result = await ocrModel.recognizeImage(imagePath, 1, profile);
+  return result.text;
+}
+
+/**
+ * Evaluate the profile's active model on labeled images
+ */
+export async function evaluateModel(
+  examples: Array<{ imagePath: string; label: string }>,
+  profile: string = BASE_PROFILE
+): Promise<Evaluation> {
+  const classes = new Map<string, { total: number; correct: number }>();
+  const confusion = new Map<string, Confusion>();
+  let exact = 0;
+  let characters = 0;
+  let correctCharacters = 0;
+
+  for (const example of examples) {
+    const predicted = await predictLabel(example.imagePath, example.label, profile);
+    if (predicted === example.label) exact++;
+
+    alignCharacters(example.label, predicted).forEach(([expectedChar, predictedChar]) => {
+      const stats = classes.get(expectedChar) || { total: 0, correct: 0 };
+      stats.total++;
+      characters++;
+      if (expectedChar === predictedChar) {
+        stats.correct++;
+        correctCharacters++;
+      }
+      classes.set(expectedChar, stats);
+
+      const key = `${expectedChar}\u0000${predictedChar}`;
+      const entry = confusion.get(key) || { expected: expectedChar, predicted: predictedChar, count: 0 };
+      entry.count++;
+      confusion.set(key, entry);
+    });
+  }
+
+  const countOf = (expected: string, predicted: string) =>
+    confusion.get(`${expected}\u0000${predicted}`)?.count || 0;
+
+  return {
+    modelType: ocrModel.getModelConfig(profile).modelType,
+    validationCount: examples.length,
+    accuracy: examples.length > 0 ? exact / examples.length : null,
+    characterAccuracy: characters > 0 ? correctCharacters / characters : null,
+    perClass: Array.from(classes.entries())
+      .map(([char, stats]) => ({ char, ...stats, accuracy: stats.correct / stats.total }))
+      .sort((a, b) => a.char.localeCompare(b.char)),
+    confusion: Array.from(confusion.values()).sort((a, b) =>
+      Number(a.expected === a.predicted) - Number(b.expected === b.predicted) || b.count - a.count
+    ),
+    confusablePairs: CONFUSABLE_PAIRS.map(([first, second]) => ({
+      pair: [first, second] as [string, string],
+      total: [classes.get(first)?.total || 0, classes.get(second)?.total || 0] as [number, number],
+      swapped: [countOf(first, second), countOf(second, first)] as [number, number]
+    }))
+  };
+}
@@ -0,0 +1,264 @@
+import * as tf from '@tensorflow/tfjs-node';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { ModelVersion } from '@shared/ocr';
+
+/**
+ * Storage for the OCR models, keyed by profile. The base profile holds the
+ * shared models everyone starts from; a personal profile gets its own copy of
+ * a base model the first time it is trained, and uses the base model until then.
+ *
+ * Every save is also kept as a numbered version next to the active model, so a
+ * bad training run can be rolled back by activating an earlier version.
+ */
+
+export const BASE_PROFILE = 'base';
+
+// Profile ids become directory names, so keep them to safe characters
+export const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type ModelKind = ModelVersion['kind'];
+
+// Base model directories, kept where the first models were saved
+const BASE_MODEL_DIRS: Record<ModelKind, string> = {
+  character: path.join(process.cwd(), 'ocr-model'),
+  sequence: path.join(process.cwd(), 'ocr-sequence-model'),
+  stroke: path.join(process.cwd(), 'ocr-stroke-model')
+};
+
+const PROFILES_DIR = path.join(process.cwd(), 'ocr-profiles');
+
+const MAX_VERSIONS = 20; // Older versions are pruned, the active one is always kept
+const MODEL_FILES = ['model.json', 'weights.bin'];
+
+// Versions as kept in the manifest; which one is active is recorded separately
+type StoredVersion = Omit<ModelVersion, 'active'>;
+
+export interface CheckpointInfo {
+  samples: number;
+  accuracy?: number | null;
+  loss?: number | null;
+}
+
+interface VersionManifest {
+  activeId: string | null;
+  versions: StoredVersion[];
+}
+
+interface ModelOptions {
+  create: () => Promise<tf.LayersModel>;
+  // Run on every model after loading or creating, e.g. to compile it for fit()
+  prepare?: (model: tf.LayersModel) => void;
+}
+
+const cache = new Map<string, tf.LayersModel>();
+const cacheKey = (kind: ModelKind, profile: string) => `${kind}/${profile}`;
+
+export function isPersonalProfile(profile: string): boolean {
+  return profile !== BASE_PROFILE;
+}
+
+export function getModelDir(kind: ModelKind, profile: string): string {
+  return isPersonalProfile(profile)
+    ? path.join(PROFILES_DIR, profile, kind)
+    : BASE_MODEL_DIRS[kind];
+}
+
+// Where a profile's settings are kept, next to its character model
+export function getConfigPath(profile: string): string {
+  return isPersonalProfile(profile)
+    ? path.join(PROFILES_DIR, profile, 'config.json')
+    : path.join(BASE_MODEL_DIRS.character, 'config.json');
+}
+
+export function modelExists(kind: ModelKind, profile: string): boolean {
+  return fs.existsSync(path.join(getModelDir(kind, profile), 'model.json'));
+}
+
+const getVersionDir = (kind: ModelKind, profile: string, id: string) =>
+  path.join(getModelDir(kind, profile), 'versions', id);
+
+const getManifestPath = (kind: ModelKind, profile: string) =>
+  path.join(getModelDir(kind, profile), 'versions.json');
+
+function loadManifest(kind: ModelKind, profile: string): VersionManifest {
+  try {
+    const manifestPath = getManifestPath(kind, profile);
+    if (fs.existsSync(manifestPath)) {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    }
+  } catch (error) {
+    console.error(`Error loading ${kind} model versions for profile ${profile}:`, error);
+  }
+  return { activeId: null, versions: [] };
+}
+
+function saveManifest(kind: ModelKind, profile: string, manifest: VersionManifest) {
+  fs.writeFileSync(getManifestPath(kind, profile), JSON.stringify(manifest, null, 2));
+}
+
+function copyModelFiles(from: string, to: string) {
+  if (!fs.existsSync(to)) {
+    fs.mkdirSync(to, { recursive: true });
+  }
+  MODEL_FILES.forEach(file => fs.copyFileSync(path.join(from, file), path.join(to, file)));
+}
+
+/**
+ * Save a model as the profile's active model and keep a copy as a new version
+ */
+export async function saveModel(
+  kind: ModelKind,
+  profile: string,
+  model: tf.LayersModel,
+  checkpoint: CheckpointInfo = { samples: 0 }
+): Promise<StoredVersion> {
+  const dir = getModelDir(kind, profile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  await model.save(`file://${dir}`);
+  cache.set(cacheKey(kind, profile), model);
+
+  const manifest = loadManifest(kind, profile);
+  const version: StoredVersion = {
+    id: uuidv4(),
+    number: Math.max(0, ...manifest.versions.map(v => v.number)) + 1,
+    kind,
+    createdAt: new Date().toISOString(),
+    samples: checkpoint.samples,
+    accuracy: checkpoint.accuracy ?? null,
+    loss: checkpoint.loss ?? null,
+    validationAccuracy: null,
+    parentId: manifest.activeId
+  };
+  copyModelFiles(dir, getVersionDir(kind, profile, version.id));
+
+  manifest.versions.push(version);
+  manifest.activeId = version.id;
+
+  // Prune the oldest versions
+  while (manifest.versions.length > MAX_VERSIONS) {
+    const [oldest] = manifest.versions.splice(0, 1);
+    fs.rmSync(getVersionDir(kind, profile, oldest.id), { recursive: true, force: true });
+  }
+
+  saveManifest(kind, profile, manifest);
+  return version;
+}
+
+/**
+ * Drop a profile's cached models, e.g. after another thread saved new weights,
+ * so they are reloaded from disk the next time they are used
+ */
+export function forgetModels(profile: string) {
+  (['character', 'sequence', 'stroke'] as ModelKind[]).forEach(kind => cache.delete(cacheKey(kind, profile)));
+}
+
+/**
+ * All saved versions of a profile's models, oldest first
+ */
+export function listVersions(profile: string): ModelVersion[] {
+  return (['character', 'sequence', 'stroke'] as ModelKind[]).flatMap(kind => {
+    const manifest = loadManifest(kind, profile);
+    return manifest.versions.map(version => ({ ...version, active: version.id === manifest.activeId }));
+  });
+}
+
+export function findVersion(profile: string, id: string): ModelVersion | undefined {
+  return listVersions(profile).find(version => version.id === id);
+}
+
+/**
+ * Make a saved version the active model again
+ */
+export function activateVersion(profile: string, version: StoredVersion) {
+  const manifest = loadManifest(version.kind, profile);
+  copyModelFiles(getVersionDir(version.kind, profile, version.id), getModelDir(version.kind, profile));
+  manifest.activeId = version.id;
+  saveManifest(version.kind, profile, manifest);
+
+  // Reloaded from disk the next time it is used
+  cache.delete(cacheKey(version.kind, profile));
+}
+
+/**
+ * Store the hold-out accuracy of the active version of a model
+ */
+export function recordValidationAccuracy(kind: ModelKind, profile: string, accuracy: number | null) {
+  const manifest = loadManifest(kind, profile);
+  const active = manifest.versions.find(v => v.id === manifest.activeId);
+  if (!active) return;
+
+  active.validationAccuracy = accuracy;
+  saveManifest(kind, profile, manifest);
+}
+
+export function deleteVersion(profile: string, version: StoredVersion) {
+  const manifest = loadManifest(version.kind, profile);
+  manifest.versions = manifest.versions.filter(v => v.id !== version.id);
+  fs.rmSync(getVersionDir(version.kind, profile, version.id), { recursive: true, force: true });
+  saveManifest(version.kind, profile, manifest);
+}
+
+// Load a saved model, creating (and saving) a new one if there is none or it is broken
+async function loadOrCreate(kind: ModelKind, profile: string, options: ModelOptions): Promise<tf.LayersModel> {
+  const modelJsonPath = path.join(getModelDir(kind, profile), 'model.json');
+  let model: tf.LayersModel;
+
+  try {
+    if (fs.existsSync(modelJsonPath)) {
+      console.log(`Loading existing ${kind} OCR model for profile ${profile}...`);
+      model = await tf.loadLayersModel(`file://${modelJsonPath}`);
+      options.prepare?.(model);
+      cache.set(cacheKey(kind, profile), model);
+      return model;
+    }
+  } catch (error) {
+    console.error(`Error loading ${kind} OCR model for profile ${profile}:`, error);
+  }
+
+  console.log(`Creating new ${kind} OCR model for profile ${profile}...`);
+  model = await options.create();
+  options.prepare?.(model);
+  await saveModel(kind, profile, model);
+  return model;
+}
+
+/**
+ * The model to recognize with: the profile's own model if it has one,
+ * otherwise the base model
+ */
+export async function getModel(kind: ModelKind, profile: string, options: ModelOptions): Promise<tf.LayersModel> {
+  const cached = cache.get(cacheKey(kind, profile));
+  if (cached) return cached;
+
+  if (isPersonalProfile(profile) && !modelExists(kind, profile)) {
+    return getModel(kind, BASE_PROFILE, options);
+  }
+
+  return loadOrCreate(kind, profile, options);
+}
+
+/**
+ * The model to train for a profile. A personal profile without its own model
+ * is forked from the base model, so training fine-tunes the base weights
+ * instead of starting from scratch and never changes the base model.
+ */
+export async function getTrainableModel(kind: ModelKind, profile: string, options: ModelOptions): Promise<tf.LayersModel> {
+  const cached = cache.get(cacheKey(kind, profile));
+  if (cached) return cached;
+
+  if (isPersonalProfile(profile) && !modelExists(kind, profile)) {
+    // Make sure the base model is on disk, then load an independent copy of it
+    await getModel(kind, BASE_PROFILE, options);
+    console.log(`Creating personal ${kind} OCR model for profile ${profile} from the base model...`);
+    const model = await tf.loadLayersModel(`file://${path.join(getModelDir(kind, BASE_PROFILE), 'model.json')}`);
+    options.prepare?.(model);
+    await saveModel(kind, profile, model);
+    return model;
+  }
+
+  return loadOrCreate(kind, profile, options);
+}
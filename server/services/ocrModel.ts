@@ -1,26 +1,101 @@
 import * as tf from '@tensorflow/tfjs-node';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  DEFAULT_TOP_K,
+  type Candidate,
+  type DecoderType,
+  type EpochProgress,
+  type ModelInfo,
+  type ModelType,
+  type RecognitionResult,
+  type RecognizedCharacter,
+  type RecognizedLine,
+  type RecognizedWord
+} from '@shared/ocr';
+import { binarize, segmentPage, findLines, getInkBounds, union, BoundingBox } from './segmentation';
+import { GLYPH_SIZE, decodeGrayscale, cropToInk, deslant, normalizeGlyph } from './preprocessing';
+import { ctcLoss, greedyDecode, beamSearchDecode } from './ctc';
+import { AugmentationOptions, DEFAULT_AUGMENTATION, augmentBatch, augmentedBatches } from './augmentation';
+import {
+  BASE_PROFILE,
+  getConfigPath,
+  getModel,
+  getTrainableModel,
+  isPersonalProfile,
+  modelExists,
+  saveModel
+} from './modelStore';
 // We'll handle image processing directly without Jimp for simplicity
 
-// Model paths
-const MODEL_PATH = path.join(process.cwd(), 'ocr-model');
-const MODEL_JSON_PATH = path.join(MODEL_PATH, 'model.json');
-
 // Constants for OCR
-const IMAGE_SIZE = 28; // Standard size for OCR input (28x28)
-const CHAR_SET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,?!-_\'";:()[]{}<>';
+const IMAGE_SIZE = GLYPH_SIZE; // Standard size for OCR input (28x28)
+export const CHAR_SET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,?!-_\'";:()[]{}<>';
+
+// Constants for the sequence (line) model
+const LINE_HEIGHT = 32;           // Line images are scaled to this height, width varies
+const LINE_PADDING = 2;           // White border above and below the ink
+const SEQUENCE_DOWNSAMPLE = 4;    // Image columns per CTC time step
+export const SEQUENCE_CHAR_SET = CHAR_SET + ' ';
+const BLANK_INDEX = SEQUENCE_CHAR_SET.length; // Extra CTC class after the charset
+const BEAM_WIDTH = 8;
+
+export { DEFAULT_TOP_K };
+
+// Hooks for reporting progress from a training run and stopping it early
+export interface TrainingCallbacks {
+  onEpochEnd?: (progress: EpochProgress) => void;
+  isCancelled?: () => boolean;
+}
+
+// Thrown instead of saving when a training run is cancelled
+export const checkCancelled = (callbacks: TrainingCallbacks) => {
+  if (callbacks.isCancelled?.()) {
+    throw new Error('Training cancelled');
+  }
+};
+
+export interface ModelConfig {
+  modelType: ModelType;
+  decoder: DecoderType;
+}
+
+const DEFAULT_CONFIG: ModelConfig = { modelType: 'character', decoder: 'greedy' };
 
-// Global model instance
-let model: tf.LayersModel | null = null;
+// Settings per profile, remembered across restarts
+const configs = new Map<string, ModelConfig>();
+
+const loadConfig = (profile: string): ModelConfig => {
+  // Personal profiles follow the base settings until they choose their own
+  const fallback = isPersonalProfile(profile) ? getModelConfig(BASE_PROFILE) : DEFAULT_CONFIG;
+  const configPath = getConfigPath(profile);
+  
+  try {
+    if (fs.existsSync(configPath)) {
+      return { ...fallback, ...JSON.parse(fs.readFileSync(configPath, 'utf8')) };
+    }
+  } catch (error) {
+    console.error('Error loading OCR model config:', error);
+  }
+  return fallback;
+};
 
-// Make sure the model directory exists
-const ensureModelDir = () => {
-  if (!fs.existsSync(MODEL_PATH)) {
-    fs.mkdirSync(MODEL_PATH, { recursive: true });
+const saveConfig = (profile: string, config: ModelConfig) => {
+  const configPath = getConfigPath(profile);
+  if (!fs.existsSync(path.dirname(configPath))) {
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
   }
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  configs.set(profile, config);
 };
 
+export function getModelConfig(profile: string = BASE_PROFILE): ModelConfig {
+  if (!configs.has(profile)) {
+    configs.set(profile, loadConfig(profile));
+  }
+  return configs.get(profile)!;
+}
+
 /**
  * Create a new model for dyslexic handwriting recognition
  */
@@ -92,59 +167,122 @@ export async function createModel(): Promise<tf.LayersModel> {
 }
 
 /**
- * Initialize the OCR model - create new or load existing
+ * Create a sequence model that reads a whole line: a CNN turns the image into
+ * a sequence of column features, a bidirectional LSTM reads them in context
+ * and every time step predicts a character or the CTC blank
  */
-export async function initializeModel(): Promise<tf.LayersModel> {
-  ensureModelDir();
+export async function createSequenceModel(): Promise<tf.LayersModel> {
+  const m = tf.sequential();
   
-  try {
-    // Check if model exists
-    if (fs.existsSync(MODEL_JSON_PATH)) {
-      console.log('Loading existing OCR model...');
-      model = await tf.loadLayersModel(`file://${MODEL_JSON_PATH}`);
-    } else {
-      console.log('Creating new OCR model...');
-      model = await createModel();
-      
-      // Save the new model
-      await model.save(`file://${MODEL_PATH}`);
-    }
-    
-    model.summary();
-    return model;
-  } catch (error) {
-    console.error('Error initializing OCR model:', error);
-    
-    // If loading fails, create a new model
-    console.log('Creating new OCR model after failed load...');
-    model = await createModel();
-    
-    // Save the new model
-    await model.save(`file://${MODEL_PATH}`);
-    return model;
+  // Input shape: LINE_HEIGHT rows, any number of columns, grayscale
+  m.add(tf.layers.conv2d({
+    inputShape: [LINE_HEIGHT, null, 1],
+    filters: 32,
+    kernelSize: 3,
+    activation: 'relu',
+    padding: 'same'
+  }));
+  
+  m.add(tf.layers.maxPooling2d({
+    poolSize: 2,
+    strides: 2
+  }));
+  
+  m.add(tf.layers.conv2d({
+    filters: 64,
+    kernelSize: 3,
+    activation: 'relu',
+    padding: 'same'
+  }));
+  
+  m.add(tf.layers.maxPooling2d({
+    poolSize: 2,
+    strides: 2
+  }));
+  
+  m.add(tf.layers.conv2d({
+    filters: 128,
+    kernelSize: 3,
+    activation: 'relu',
+    padding: 'same'
+  }));
+  
+  // Only shrink the height from here on so each column stays a time step
+  m.add(tf.layers.maxPooling2d({
+    poolSize: [2, 1],
+    strides: [2, 1]
+  }));
+  
+  // [height, width, filters] -> [width, height * filters]
+  m.add(tf.layers.permute({ dims: [2, 1, 3] }));
+  m.add(tf.layers.reshape({ targetShape: [-1, (LINE_HEIGHT / 8) * 128] }));
+  
+  m.add(tf.layers.bidirectional({
+    layer: tf.layers.lstm({ units: 128, returnSequences: true }) as tf.RNN,
+    mergeMode: 'concat'
+  }));
+  
+  m.add(tf.layers.dropout({ rate: 0.25 }));
+  
+  // One node per character plus the CTC blank, at every time step
+  m.add(tf.layers.dense({
+    units: SEQUENCE_CHAR_SET.length + 1,
+    activation: 'softmax'
+  }));
+  
+  // Trained with a custom CTC loop, so no compile step
+  return m;
+}
+
+// Models saved without their training config (or loaded from disk) need
+// compiling before they can be trained with fit()
+const compileCharacterModel = (m: tf.LayersModel) => {
+  if (!m.optimizer) {
+    m.compile({
+      optimizer: 'adam',
+      loss: 'categoricalCrossentropy',
+      metrics: ['accuracy']
+    });
   }
+};
+
+const characterModelOptions = { create: createModel, prepare: compileCharacterModel };
+const sequenceModelOptions = { create: createSequenceModel };
+
+/**
+ * Initialize the OCR model for a profile and make it the active one
+ */
+export async function initializeModel(
+  options: Partial<ModelConfig> = {},
+  profile: string = BASE_PROFILE
+): Promise<tf.LayersModel> {
+  const current = getModelConfig(profile);
+  const config = {
+    modelType: options.modelType || current.modelType,
+    decoder: options.decoder || current.decoder
+  };
+  saveConfig(profile, config);
+  
+  return config.modelType === 'sequence'
+    ? getModel('sequence', profile, sequenceModelOptions)
+    : getModel('character', profile, characterModelOptions);
 }
 
 /**
- * Preprocess image for training or prediction - simplified version
+ * Preprocess a single-glyph image for training or prediction, the same way
+ * recognition prepares each segmented glyph (see preprocessing.ts)
  */
 export async function preprocessImage(imagePath: string): Promise<tf.Tensor4D> {
   try {
-    // Read the image file using TensorFlow
-    const imageBuffer = fs.readFileSync(imagePath);
-    const tfImage = tf.node.decodeImage(imageBuffer, 1); // 1 channel (grayscale)
-    
-    // Resize and normalize
-    const resized = tf.image.resizeBilinear(tfImage, [IMAGE_SIZE, IMAGE_SIZE]);
-    const normalized = tf.div(resized, 255.0);
+    const image = loadGrayscaleImage(imagePath);
+    const glyph = normalizeGlyph(image);
     
     // Reshape to [1, IMAGE_SIZE, IMAGE_SIZE, 1] for the model
-    const batched = tf.expandDims(normalized, 0);
+    const batched = tf.expandDims(glyph, 0);
     
     // Clean up intermediate tensors
-    tfImage.dispose();
-    resized.dispose();
-    normalized.dispose();
+    image.dispose();
+    glyph.dispose();
     
     return batched as tf.Tensor4D;
   } catch (error) {
@@ -184,15 +322,68 @@ export async function preprocessCanvas(canvasDataUrl: string): Promise<tf.Tensor
   }
 }
 
+/**
+ * Crop a line image to its ink, correct its slant and scale it to LINE_HEIGHT,
+ * keeping the aspect ratio so the width (and so the number of time steps) varies
+ *
+ * @param image  Grayscale image with values 0-255
+ * @param region Part of the image to use, defaults to all of it
+ */
+export function preprocessLineImage(image: tf.Tensor3D, region?: BoundingBox): tf.Tensor3D {
+  return tf.tidy(() => {
+    const ink = cropToInk(image, region);
+    const crop = ink ? deslant(ink) : tf.fill([LINE_HEIGHT - LINE_PADDING * 2, 1, 1], 255) as tf.Tensor3D;
+    const [cropHeight, cropWidth] = crop.shape;
+    
+    const scale = (LINE_HEIGHT - LINE_PADDING * 2) / cropHeight;
+    const scaledWidth = Math.max(1, Math.round(cropWidth * scale));
+    
+    const resized = tf.image.resizeBilinear(crop, [LINE_HEIGHT - LINE_PADDING * 2, scaledWidth]);
+    const padded = tf.pad(
+      tf.div(resized, 255.0),
+      [[LINE_PADDING, LINE_PADDING], [LINE_PADDING, LINE_PADDING], [0, 0]],
+      1
+    );
+    return padded as tf.Tensor3D;
+  });
+}
+
+// Pad line images on the right with white to a common width the model can
+// downsample, long enough for CTC to fit each label (repeats need a blank between)
+function padLineBatch(lines: tf.Tensor3D[], labelLengths: number[] = []): tf.Tensor4D {
+  return tf.tidy(() => {
+    const minSteps = Math.max(0, ...labelLengths.map(length => length * 2 + 1));
+    const widest = Math.max(...lines.map(line => line.shape[1]), minSteps * SEQUENCE_DOWNSAMPLE);
+    const width = Math.ceil(widest / SEQUENCE_DOWNSAMPLE) * SEQUENCE_DOWNSAMPLE;
+    
+    return tf.stack(lines.map(line =>
+      tf.pad(line, [[0, 0], [0, width - line.shape[1]], [0, 0]], 1)
+    )) as tf.Tensor4D;
+  });
+}
+
+// Label string to sequence charset indices, skipping unknown characters
+function encodeSequenceLabel(label: string): number[] {
+  return Array.from(label).flatMap(char => {
+    const index = SEQUENCE_CHAR_SET.indexOf(char);
+    if (index === -1) {
+      console.warn(`Character '${char}' not in charset, skipping it in label '${label}'`);
+      return [];
+    }
+    return [index];
+  });
+}
+
 /**
  * Train model on a batch of labeled images
  */
 export async function trainOnBatch(
-  examples: Array<{ tensor: tf.Tensor4D; label: string }>
+  examples: Array<{ tensor: tf.Tensor4D; label: string }>,
+  profile: string = BASE_PROFILE,
+  callbacks: TrainingCallbacks = {},
+  augmentation: AugmentationOptions = DEFAULT_AUGMENTATION
 ): Promise<tf.History> {
-  if (!model) {
-    model = await initializeModel();
-  }
+  const model = await getTrainableModel('character', profile, characterModelOptions);
   
   // Prepare inputs and targets (one-hot encoded)
   const batchSize = examples.length;
@@ -204,7 +395,10 @@ export async function trainOnBatch(
   const ys = tf.buffer([batchSize, CHAR_SET.length]);
   
   examples.forEach((example, i) => {
-    // Use only first character of label for simplicity
+    // The character model learns single glyphs; word labels need the sequence model
+    if (example.label.length > 1) {
+      console.warn(`Label '${example.label}' has several characters, training the character model on '${example.label.charAt(0)}' only`);
+    }
     const char = example.label.charAt(0);
     const charIndex = CHAR_SET.indexOf(char);
     
@@ -218,15 +412,51 @@ export async function trainOnBatch(
   });
   
   // Train for a few epochs
-  const history = await model.fit(xs, ys.toTensor(), {
-    epochs: 10,
-    batchSize: Math.min(32, batchSize),
-    shuffle: true,
-    verbose: 1
-  });
+  const epochs = 10;
+  const targets = ys.toTensor() as tf.Tensor2D;
+  const fitCallbacks = {
+    onEpochEnd: async (epoch: number, logs?: tf.Logs) => {
+      callbacks.onEpochEnd?.({
+        epoch: epoch + 1,
+        epochs,
+        loss: logs?.loss ?? 0,
+        accuracy: logs?.acc ?? logs?.accuracy
+      });
+      if (callbacks.isCancelled?.()) {
+        model.stopTraining = true;
+      }
+    }
+  };
   
-  // Save the updated model
-  await model.save(`file://${MODEL_PATH}`);
+  // With augmentation every epoch sees freshly distorted copies of the samples
+  const history = augmentation.enabled
+    ? await model.fitDataset(
+        tf.data.generator(() => augmentedBatches(xs, targets, Math.min(32, batchSize), augmentation)),
+        { epochs, verbose: 1, callbacks: fitCallbacks }
+      )
+    : await model.fit(xs, targets, {
+        epochs,
+        batchSize: Math.min(32, batchSize),
+        shuffle: true,
+        verbose: 1,
+        callbacks: fitCallbacks
+      });
+  targets.dispose();
+  
+  // Keep the previous model if the run was stopped
+  if (callbacks.isCancelled?.()) {
+    xs.dispose();
+    checkCancelled(callbacks);
+  }
+  
+  // Save the updated model as a new version
+  const accuracy = (history.history.acc || history.history.accuracy) as number[] | undefined;
+  const loss = history.history.loss as number[];
+  await saveModel('character', profile, model, {
+    samples: batchSize,
+    accuracy: accuracy ? accuracy[accuracy.length - 1] : null,
+    loss: loss[loss.length - 1]
+  });
   
   // Clean up tensors
   xs.dispose();
@@ -234,96 +464,435 @@ export async function trainOnBatch(
   return history;
 }
 
+/**
+ * Train the sequence model on line images with full string labels
+ */
+export async function trainSequenceBatch(
+  examples: Array<{ tensor: tf.Tensor3D; label: string }>,
+  profile: string = BASE_PROFILE,
+  epochs: number = 10,
+  callbacks: TrainingCallbacks = {},
+  augmentation: AugmentationOptions = DEFAULT_AUGMENTATION
+): Promise<number[]> {
+  const sequenceModel = await getTrainableModel('sequence', profile, sequenceModelOptions);
+  
+  const encoded = examples.map(example => ({
+    tensor: example.tensor,
+    label: encodeSequenceLabel(example.label)
+  })).filter(example => example.label.length > 0);
+  
+  if (encoded.length === 0) {
+    throw new Error('No training examples with characters from the charset');
+  }
+  
+  const optimizer = tf.train.adam(0.001);
+  const batchSize = Math.min(32, encoded.length);
+  const losses: number[] = [];
+  
+  // Rotating a long line would move its ends out of the image, so lines are only slanted
+  const lineAugmentation = { ...augmentation, rotation: 0 };
+  const copies = augmentation.enabled ? augmentation.copies : 0;
+  
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    // Every example as it is, plus distorted copies when augmenting
+    const passes = Array.from({ length: copies + 1 }, (_, copy) =>
+      encoded.map(example => ({ ...example, distorted: copy > 0 }))
+    ).flat();
+    tf.util.shuffle(passes);
+    let epochLoss = 0;
+    
+    for (let start = 0; start < passes.length; start += batchSize) {
+      const batch = passes.slice(start, start + batchSize);
+      const xs = tf.tidy(() => {
+        const lines = padLineBatch(batch.map(ex => ex.tensor), batch.map(ex => ex.label.length));
+        if (!batch.some(ex => ex.distorted)) return lines;
+        
+        const distorted = tf.tensor4d(batch.map(ex => ex.distorted ? 1 : 0), [batch.length, 1, 1, 1], 'bool');
+        return tf.where(distorted, augmentBatch(lines, lineAugmentation), lines) as tf.Tensor4D;
+      });
+      const m = sequenceModel;
+      
+      const loss = optimizer.minimize(
+        () => ctcLoss(m.apply(xs, { training: true }) as tf.Tensor3D, batch.map(ex => ex.label), BLANK_INDEX),
+        true
+      );
+      
+      epochLoss += (await loss!.data())[0] * batch.length;
+      loss!.dispose();
+      xs.dispose();
+    }
+    
+    losses.push(epochLoss / passes.length);
+    console.log(`Sequence model epoch ${epoch + 1}/${epochs}: loss ${losses[epoch].toFixed(4)}`);
+    callbacks.onEpochEnd?.({ epoch: epoch + 1, epochs, loss: losses[epoch] });
+    
+    if (callbacks.isCancelled?.()) break;
+  }
+  
+  optimizer.dispose();
+  checkCancelled(callbacks);
+  await saveModel('sequence', profile, sequenceModel, {
+    samples: encoded.length,
+    loss: losses[losses.length - 1]
+  });
+  
+  return losses;
+}
+
+/**
+ * Train the profile's active model on labeled image files and return the loss per epoch
+ */
+export async function trainOnImages(
+  examples: Array<{ imagePath: string; label: string }>,
+  profile: string = BASE_PROFILE,
+  callbacks: TrainingCallbacks = {},
+  augmentation: AugmentationOptions = DEFAULT_AUGMENTATION
+): Promise<number[]> {
+  if (getModelConfig(profile).modelType === 'sequence') {
+    const lines = examples.map(example => {
+      const image = loadGrayscaleImage(example.imagePath);
+      const tensor = preprocessLineImage(image);
+      image.dispose();
+      return { tensor, label: example.label };
+    });
+    
+    try {
+      return await trainSequenceBatch(lines, profile, undefined, callbacks, augmentation);
+    } finally {
+      lines.forEach(line => line.tensor.dispose());
+    }
+  }
+  
+  // The character model learns single glyphs. Images of words (like the
+  // calibration prompts "was" and "saw") are left to the sequence model; taught
+  // as their first letter they would blur the letters they set apart.
+  const glyphs = examples.filter(example => Array.from(example.label).length === 1);
+  if (glyphs.length === 0) {
+    throw new Error('No single-character images to train the character model on');
+  }
+  
+  const batch = await Promise.all(glyphs.map(async example => ({
+    tensor: await preprocessImage(example.imagePath),
+    label: example.label
+  })));
+  try {
+    const history = await trainOnBatch(batch, profile, callbacks, augmentation);
+    return history.history.loss as number[];
+  } finally {
+    batch.forEach(example => example.tensor.dispose());
+  }
+}
+
 /**
  * Update model with a single labeled example
  */
 export async function updateModelWithExample(
   imagePath: string,
-  label: string
-): Promise<tf.History> {
-  const tensor = await preprocessImage(imagePath);
-  return trainOnBatch([{ tensor, label }]);
+  label: string,
+  profile: string = BASE_PROFILE
+): Promise<number[]> {
+  return trainOnImages([{ imagePath, label }], profile);
 }
 
 /**
- * Recognize text from image
+ * Recognize a single character image, returning the most likely characters
  */
-export async function recognizeText(imageTensor: tf.Tensor4D): Promise<string> {
-  if (!model) {
-    model = await initializeModel();
-  }
+export async function recognizeText(
+  imageTensor: tf.Tensor4D,
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<Candidate[]> {
+  const model = await getModel('character', profile, characterModelOptions);
   
   // Get prediction
   const prediction = model.predict(imageTensor) as tf.Tensor;
-  
-  // Get max index (most likely character)
-  const argMax = prediction.argMax(1);
-  const index = (await argMax.data())[0];
-  
-  // Get the character from the charset
-  const character = CHAR_SET.charAt(index);
+  const distribution = await prediction.data();
   
   // Clean up tensors
   prediction.dispose();
-  argMax.dispose();
   
-  return character;
+  return topCandidates(distribution, CHAR_SET, topK);
 }
 
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
 /**
- * Recognize text from canvas data URL
+ * The k most probable characters of a softmax distribution. Classes past the
+ * end of the charset (the CTC blank) are left out.
+ */
+export function topCandidates(distribution: ArrayLike<number>, charSet: string, k: number): Candidate[] {
+  return Array.from(distribution)
+    .slice(0, charSet.length)
+    .map((probability, index) => ({ text: charSet.charAt(index), probability }))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, k);
+}
+
+/**
+ * The k most probable spellings of a word, combining the candidates of its
+ * characters as if they were independent
  */
-export async function recognizeTextFromCanvas(canvasDataUrl: string): Promise<string> {
-  const tensor = await preprocessCanvas(canvasDataUrl);
-  const text = await recognizeText(tensor);
+function wordCandidates(characters: RecognizedCharacter[], k: number): Candidate[] {
+  return characters.reduce<Candidate[]>(
+    (spellings, character) => spellings
+      .flatMap(spelling => character.candidates.map(candidate => ({
+        text: spelling.text + candidate.text,
+        probability: spelling.probability * candidate.probability
+      })))
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, k),
+    [{ text: '', probability: 1 }]
+  );
+}
+
+export function buildWord(characters: RecognizedCharacter[], box: BoundingBox, topK: number): RecognizedWord {
+  return {
+    text: characters.map(c => c.char).join(''),
+    confidence: average(characters.map(c => c.confidence)),
+    box,
+    characters,
+    candidates: wordCandidates(characters, topK)
+  };
+}
+
+export function buildLine(words: RecognizedWord[], box: BoundingBox): RecognizedLine {
+  return {
+    text: words.map(w => w.text).join(' '),
+    confidence: average(words.flatMap(w => w.characters.map(c => c.confidence))),
+    box,
+    words
+  };
+}
+
+/**
+ * Assemble the characters decoded from one line by a sequence model into
+ * words, splitting on the spaces it predicted
+ */
+export function buildLineFromSequence(
+  characters: RecognizedCharacter[],
+  box: BoundingBox,
+  topK: number
+): RecognizedLine | null {
+  const words: RecognizedWord[] = [];
+  let current: RecognizedCharacter[] = [];
+  
+  const flush = () => {
+    if (current.length === 0) return;
+    words.push(buildWord(current, current.map(c => c.box).reduce(union), topK));
+    current = [];
+  };
   
-  // Clean up
-  tensor.dispose();
+  characters.forEach(c => {
+    if (c.char === ' ') {
+      flush();
+    } else {
+      current.push(c);
+    }
+  });
+  flush();
   
-  return text;
+  return words.length > 0 ? buildLine(words, box) : null;
+}
+
+export function buildResult(lines: RecognizedLine[]): RecognitionResult {
+  return {
+    text: lines.map(line => line.text).join('\n'),
+    confidence: average(lines.flatMap(line => line.words.flatMap(w => w.characters.map(c => c.confidence)))),
+    lines
+  };
 }
 
 /**
- * Get model information
+ * Recognize a whole page: segment it into lines, words and glyphs, classify
+ * every glyph and assemble the text with per-character confidences
  */
-export async function getModelInfo(): Promise<any> {
-  ensureModelDir();
-  
-  const modelExists = fs.existsSync(MODEL_JSON_PATH);
+export async function recognizeSegmentedText(
+  image: tf.Tensor3D,
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<RecognitionResult> {
+  const model = await getModel('character', profile, characterModelOptions);
+
+  const [height, width] = image.shape;
+  const pixels = await image.data();
+  const lines = segmentPage(binarize(pixels, width, height));
+  const boxes = lines.flatMap(line => line.words.flatMap(word => word.glyphs));
+
+  if (boxes.length === 0) {
+    return { text: '', confidence: 0, lines: [] };
+  }
+
+  // Classify all glyphs in one batch
+  const batch = tf.tidy(() => tf.stack(boxes.map(box => normalizeGlyph(image, box))));
+  const prediction = model.predict(batch) as tf.Tensor2D;
+  const distributions = await prediction.array();
+  batch.dispose();
+  prediction.dispose();
+
+  // Walk the segmentation again, consuming predictions in the same order
+  let next = 0;
+  return buildResult(lines.map(line => buildLine(
+    line.words.map(word => buildWord(
+      word.glyphs.map(box => {
+        const candidates = topCandidates(distributions[next++], CHAR_SET, topK);
+        return { char: candidates[0].text, confidence: candidates[0].probability, box, candidates };
+      }),
+      word.box,
+      topK
+    )),
+    line.box
+  )));
+}
+
+/**
+ * Recognize a page with the sequence model: find the lines and read each one
+ * whole, decoding the CTC output with the configured decoder. Character boxes
+ * are estimated from the time step each character was emitted at.
+ */
+export async function recognizeSequenceText(
+  image: tf.Tensor3D,
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<RecognitionResult> {
+  const sequenceModel = await getModel('sequence', profile, sequenceModelOptions);
+  
+  const [height, width] = image.shape;
+  const bitmap = binarize(await image.data(), width, height);
+  const recognizedLines: RecognizedLine[] = [];
+  
+  for (const line of findLines(bitmap)) {
+    const ink = getInkBounds(bitmap, line);
+    if (!ink) continue;
+    
+    const input = tf.tidy(() => padLineBatch([preprocessLineImage(image, ink)]));
+    const prediction = sequenceModel.predict(input) as tf.Tensor3D;
+    const probs = (await prediction.array())[0];
+    input.dispose();
+    prediction.dispose();
+    
+    const decoded = getModelConfig(profile).decoder === 'beam'
+      ? beamSearchDecode(probs, BLANK_INDEX, BEAM_WIDTH)
+      : greedyDecode(probs, BLANK_INDEX);
+    
+    // Map time steps back to columns of the original image (approximate, as
+    // slant correction shifts the columns a little)
+    const scale = (LINE_HEIGHT - LINE_PADDING * 2) / ink.height;
+    const stepWidth = SEQUENCE_DOWNSAMPLE / scale;
+    const characters = decoded.characters.map(c => ({
+      char: SEQUENCE_CHAR_SET.charAt(c.index),
+      confidence: c.confidence,
+      box: {
+        x: Math.max(ink.x, Math.round(ink.x + c.timestep * stepWidth - LINE_PADDING / scale)),
+        y: ink.y,
+        width: Math.round(stepWidth),
+        height: ink.height
+      },
+      // Alternatives at the time step the character was emitted
+      candidates: topCandidates(probs[c.timestep], SEQUENCE_CHAR_SET, topK)
+    }));
+    
+    const recognized = buildLineFromSequence(characters, ink, topK);
+    if (recognized) recognizedLines.push(recognized);
+  }
   
-  if (!modelExists) {
-    return {
-      exists: false,
-      modelType: 'CNN Character Recognition',
-      inputShape: [IMAGE_SIZE, IMAGE_SIZE, 1],
-      outputShape: [CHAR_SET.length],
-      numClasses: CHAR_SET.length,
-      charSet: CHAR_SET
-    };
+  return buildResult(recognizedLines);
+}
+
+// Recognize with whichever model is active
+function recognizeWithActiveModel(image: tf.Tensor3D, topK: number, profile: string): Promise<RecognitionResult> {
+  return getModelConfig(profile).modelType === 'sequence'
+    ? recognizeSequenceText(image, topK, profile)
+    : recognizeSegmentedText(image, topK, profile);
+}
+
+/**
+ * Load an image as a grayscale tensor at its original size, dark ink on white
+ */
+export function loadGrayscaleImage(imagePath: string): tf.Tensor3D {
+  return decodeGrayscale(fs.readFileSync(imagePath));
+}
+
+/**
+ * Recognize all the text in an image file
+ */
+export async function recognizeImage(
+  imagePath: string,
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<RecognitionResult> {
+  const image = loadGrayscaleImage(imagePath);
+  try {
+    return await recognizeWithActiveModel(image, topK, profile);
+  } finally {
+    image.dispose();
   }
+}
+
+/**
+ * Recognize text from canvas data URL
+ */
+export async function recognizeTextFromCanvas(
+  canvasDataUrl: string,
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<RecognitionResult> {
+  const base64Data = canvasDataUrl.replace(/^data:image\/\w+;base64,/, '');
+  const image = decodeGrayscale(Buffer.from(base64Data, 'base64'));
   
-  if (!model) {
-    try {
-      model = await tf.loadLayersModel(`file://${MODEL_JSON_PATH}`);
-    } catch (error) {
-      console.error('Error loading model for info:', error);
-      return {
-        exists: false,
-        modelType: 'CNN Character Recognition (Error loading)',
+  try {
+    return await recognizeWithActiveModel(image, topK, profile);
+  } finally {
+    image.dispose();
+  }
+}
+
+/**
+ * Get information about a profile's active model
+ */
+export async function getModelInfo(profile: string = BASE_PROFILE): Promise<ModelInfo> {
+  const { modelType: kind, decoder } = getModelConfig(profile);
+  
+  const info = kind === 'sequence'
+    ? {
+        type: kind,
+        modelType: 'CNN + BiLSTM + CTC Line Recognition',
+        decoder,
+        inputShape: [LINE_HEIGHT, null, 1],
+        outputShape: [null, SEQUENCE_CHAR_SET.length + 1],
+        numClasses: SEQUENCE_CHAR_SET.length,
+        charSet: SEQUENCE_CHAR_SET
+      }
+    : {
+        type: kind,
+        modelType: 'CNN Character Recognition',
         inputShape: [IMAGE_SIZE, IMAGE_SIZE, 1],
         outputShape: [CHAR_SET.length],
         numClasses: CHAR_SET.length,
         charSet: CHAR_SET
       };
-    }
-  }
   
-  return {
-    exists: true,
-    modelType: 'CNN Character Recognition',
-    inputShape: model.inputs[0].shape,
-    outputShape: model.outputs[0].shape,
-    numClasses: CHAR_SET.length,
-    charSet: CHAR_SET
+  // Whether this profile has been trained on its own handwriting yet
+  const personal = {
+    profile,
+    personalized: isPersonalProfile(profile) && modelExists(kind, profile)
   };
-}
\ No newline at end of file
+  
+  if (!modelExists(kind, profile) && !modelExists(kind, BASE_PROFILE)) {
+    return { exists: false, ...personal, ...info };
+  }
+  
+  try {
+    const m = await getModel(kind, profile, kind === 'sequence' ? sequenceModelOptions : characterModelOptions);
+    return {
+      exists: true,
+      ...personal,
+      ...info,
+      inputShape: m.inputs[0].shape,
+      outputShape: m.outputs[0].shape
+    };
+  } catch (error) {
+    console.error('Error loading model for info:', error);
+    return { exists: false, ...personal, ...info, modelType: `${info.modelType} (Error loading)` };
+  }
+}
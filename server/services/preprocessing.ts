@@ -0,0 +1,165 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { binarize, getInkBounds, BoundingBox } from './segmentation';
+
+/**
+ * Image preprocessing shared by OCR training and recognition, so the model
+ * sees samples and real handwriting the same way:
+ *
+ * 1. Decode to grayscale with dark ink on white paper, whatever the source
+ *    (transparent canvas exports, scans, white-on-black images)
+ * 2. Crop to the bounding box of the ink
+ * 3. Correct the slant of the writing
+ * 4. Scale to fit the model input, keeping the aspect ratio
+ * 5. Place the glyph so its center of mass is in the middle
+ *
+ * Images are grayscale tensors with values 0-255 until the final 0-1 glyph.
+ */
+
+export const GLYPH_SIZE = 28;      // Model input size for single glyphs (28x28)
+const GLYPH_BOX = 20;              // The ink is scaled to fit this box inside the glyph, as in MNIST
+const PAPER = 255;                 // Grayscale value of blank paper
+const MIN_SLANT = 0.05;            // Smaller slants are left alone
+const MAX_SLANT = 1;               // Larger estimates are clamped (tan of 45 degrees)
+
+/**
+ * Decode an image file to one grayscale channel with dark ink on white paper.
+ * Transparent pixels count as paper, and mostly dark images are inverted.
+ */
+export function decodeGrayscale(buffer: Buffer): tf.Tensor3D {
+  return tf.tidy(() => {
+    const rgba = tf.node.decodeImage(buffer, 4) as tf.Tensor3D;
+    const [red, green, blue, alpha] = tf.split(rgba.toFloat(), 4, 2);
+
+    // Luminance composited over white paper
+    const luminance = red.mul(0.299).add(green.mul(0.587)).add(blue.mul(0.114));
+    const opacity = alpha.div(255);
+    const gray = luminance.mul(opacity).add(tf.sub(1, opacity).mul(PAPER));
+
+    // Paper covers most of a page, so a dark average means light ink on a dark background
+    const inverted = gray.mean().dataSync()[0] < PAPER / 2;
+    return (inverted ? tf.sub(PAPER, gray) : gray) as tf.Tensor3D;
+  });
+}
+
+/**
+ * Crop an image (or a region of it) to the bounding box of its ink,
+ * or null if there is no ink
+ */
+export function cropToInk(image: tf.Tensor3D, region?: BoundingBox): tf.Tensor3D | null {
+  const [height, width] = image.shape;
+  const area = region || { x: 0, y: 0, width, height };
+  const part = tf.slice(image, [area.y, area.x, 0], [area.height, area.width, 1]) as tf.Tensor3D;
+  const ink = getInkBounds(binarize(part.dataSync(), area.width, area.height));
+
+  if (!ink) {
+    part.dispose();
+    return null;
+  }
+
+  const crop = tf.slice(part, [ink.y, ink.x, 0], [ink.height, ink.width, 1]) as tf.Tensor3D;
+  part.dispose();
+  return crop;
+}
+
+// Ink weights (0 for paper, 1 for solid ink) of an image as a 2D tensor
+const inkWeights = (image: tf.Tensor3D): tf.Tensor2D =>
+  tf.sub(PAPER, image).div(PAPER).squeeze([2]) as tf.Tensor2D;
+
+// Center of mass of the ink, in pixels
+function centerOfMass(image: tf.Tensor3D): { x: number; y: number } {
+  return tf.tidy(() => {
+    const [height, width] = image.shape;
+    const weights = inkWeights(image);
+    const total = weights.sum().dataSync()[0];
+    if (total === 0) return { x: (width - 1) / 2, y: (height - 1) / 2 };
+
+    const x = weights.mul(tf.range(0, width).reshape([1, width])).sum().dataSync()[0] / total;
+    const y = weights.mul(tf.range(0, height).reshape([height, 1])).sum().dataSync()[0] / total;
+    return { x, y };
+  });
+}
+
+/**
+ * Estimate the slant of cropped writing from its second-order moments: how far
+ * the ink moves sideways per row, positive when the top leans left
+ */
+function estimateSlant(crop: tf.Tensor3D): number {
+  return tf.tidy(() => {
+    const [height, width] = crop.shape;
+    const weights = inkWeights(crop);
+    const total = weights.sum().dataSync()[0];
+    if (total === 0) return 0;
+
+    const { x: mx, y: my } = centerOfMass(crop);
+    const dx = tf.range(0, width).sub(mx).reshape([1, width]);
+    const dy = tf.range(0, height).sub(my).reshape([height, 1]);
+    const mu11 = weights.mul(dx).mul(dy).sum().dataSync()[0];
+    const mu02 = weights.mul(dy.square()).sum().dataSync()[0];
+    if (mu02 === 0) return 0;
+
+    return Math.max(-MAX_SLANT, Math.min(MAX_SLANT, mu11 / mu02));
+  });
+}
+
+/**
+ * Shear cropped writing so it stands upright, then crop it to its ink again
+ */
+export function deslant(crop: tf.Tensor3D): tf.Tensor3D {
+  const slant = estimateSlant(crop);
+  if (Math.abs(slant) < MIN_SLANT) return crop.clone();
+
+  const [height] = crop.shape;
+  const { y: my } = centerOfMass(crop);
+  const margin = Math.ceil(Math.abs(slant) * height);
+
+  const sheared = tf.tidy(() => {
+    const padded = tf.pad(crop, [[0, 0], [margin, margin], [0, 0]], PAPER);
+    // Each output row reads the input row shifted along the slant
+    const transform = tf.tensor2d([[1, slant, -slant * my, 0, 1, 0, 0, 0]]);
+    return tf.image.transform(padded.expandDims(0) as tf.Tensor4D, transform, 'bilinear', 'constant', PAPER)
+      .squeeze([0]) as tf.Tensor3D;
+  });
+
+  const upright = cropToInk(sheared);
+  if (!upright) return sheared;
+  sheared.dispose();
+  return upright;
+}
+
+/**
+ * Turn the ink in an image (or a region of it) into a model input glyph:
+ * cropped, deslanted, scaled to fit GLYPH_BOX and centered by its center of
+ * mass on a GLYPH_SIZE square. Values are 0-1 with white paper at 1.
+ */
+export function normalizeGlyph(image: tf.Tensor3D, region?: BoundingBox): tf.Tensor3D {
+  const crop = cropToInk(image, region);
+  if (!crop) {
+    return tf.ones([GLYPH_SIZE, GLYPH_SIZE, 1]);
+  }
+
+  const upright = deslant(crop);
+  crop.dispose();
+
+  const [height, width] = upright.shape;
+  const scale = GLYPH_BOX / Math.max(height, width);
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaled = tf.image.resizeBilinear(upright, [scaledHeight, scaledWidth]);
+  upright.dispose();
+
+  // Put the center of mass in the middle, as long as the glyph still fits
+  const center = centerOfMass(scaled);
+  const place = (offset: number, size: number) =>
+    Math.max(0, Math.min(GLYPH_SIZE - size, Math.round(GLYPH_SIZE / 2 - offset)));
+  const top = place(center.y, scaledHeight);
+  const left = place(center.x, scaledWidth);
+
+  const glyph = tf.tidy(() => tf.pad(
+    scaled,
+    [[top, GLYPH_SIZE - scaledHeight - top], [left, GLYPH_SIZE - scaledWidth - left], [0, 0]],
+    PAPER
+  ).div(PAPER) as tf.Tensor3D);
+  scaled.dispose();
+
+  return glyph;
+}
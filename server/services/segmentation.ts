@@ -0,0 +1,307 @@
+/**
+ * Page segmentation for the custom OCR model: splits a handwriting image into
+ * lines, words and single glyphs so each glyph can be classified on its own.
+ *
+ * Works on a binary bitmap where 1 is ink and 0 is paper.
+ */
+
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SegmentedWord {
+  box: BoundingBox;
+  glyphs: BoundingBox[];
+}
+
+export interface SegmentedLine {
+  box: BoundingBox;
+  words: SegmentedWord[];
+}
+
+// Tuning constants, relative to the line height where possible
+const INK_THRESHOLD = 128;         // Grayscale values below this are ink
+const MIN_LINE_HEIGHT = 4;         // Bands thinner than this are noise
+const LINE_GAP_MERGE = 0.25;       // Bands closer than this (x line height) are merged, e.g. i-dots
+const MIN_COMPONENT_PIXELS = 4;    // Specks smaller than this are dropped
+const OVERLAP_MERGE = 0.5;         // Components sharing this much width form one glyph
+const MAX_GLYPH_ASPECT = 1.4;      // Wider glyphs are split at projection minima
+const WORD_GAP = 0.35;             // Gaps wider than this (x line height) separate words
+
+/**
+ * Convert grayscale pixel values (0-255, one per pixel) to a binary ink bitmap
+ */
+export function binarize(
+  pixels: ArrayLike<number>,
+  width: number,
+  height: number,
+  threshold: number = INK_THRESHOLD
+): Bitmap {
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    data[i] = pixels[i] < threshold ? 1 : 0;
+  }
+  return { width, height, data };
+}
+
+export const union = (a: BoundingBox, b: BoundingBox): BoundingBox => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Find text lines from the horizontal projection profile (ink pixels per row)
+ */
+export function findLines(bitmap: Bitmap): BoundingBox[] {
+  const { width, height, data } = bitmap;
+  const bands: { top: number; bottom: number }[] = [];
+  let start = -1;
+
+  for (let y = 0; y <= height; y++) {
+    let ink = 0;
+    if (y < height) {
+      for (let x = 0; x < width; x++) ink += data[y * width + x];
+    }
+
+    if (ink > 0 && start === -1) {
+      start = y;
+    } else if (ink === 0 && start !== -1) {
+      bands.push({ top: start, bottom: y });
+      start = -1;
+    }
+  }
+
+  if (bands.length === 0) return [];
+
+  // Merge bands separated by small gaps (dots, accents, descenders touching the next row)
+  const typicalHeight = median(bands.map(b => b.bottom - b.top));
+  const merged = bands.reduce<{ top: number; bottom: number }[]>((result, band) => {
+    const previous = result[result.length - 1];
+    if (previous && band.top - previous.bottom < typicalHeight * LINE_GAP_MERGE) {
+      previous.bottom = band.bottom;
+    } else {
+      result.push({ ...band });
+    }
+    return result;
+  }, []);
+
+  return merged
+    .filter(band => band.bottom - band.top >= MIN_LINE_HEIGHT)
+    .map(band => ({ x: 0, y: band.top, width, height: band.bottom - band.top }));
+}
+
+/**
+ * Tight bounding box of the ink inside a region, or null if it is blank
+ */
+export function getInkBounds(bitmap: Bitmap, region?: BoundingBox): BoundingBox | null {
+  const { x: rx, y: ry, width: rw, height: rh } = region || { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+
+  for (let y = ry; y < ry + rh; y++) {
+    for (let x = rx; x < rx + rw; x++) {
+      if (!bitmap.data[y * bitmap.width + x]) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Connected components (8-connectivity) of the ink inside a region
+ */
+export function findComponents(bitmap: Bitmap, region: BoundingBox): BoundingBox[] {
+  const { width, data } = bitmap;
+  const visited = new Uint8Array(region.width * region.height);
+  const components: BoundingBox[] = [];
+  const stack: number[] = [];
+
+  for (let ry = 0; ry < region.height; ry++) {
+    for (let rx = 0; rx < region.width; rx++) {
+      const local = ry * region.width + rx;
+      if (visited[local] || !data[(region.y + ry) * width + region.x + rx]) continue;
+
+      let minX = rx, maxX = rx, minY = ry, maxY = ry, pixels = 0;
+      visited[local] = 1;
+      stack.push(local);
+
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        const cx = current % region.width;
+        const cy = Math.floor(current / region.width);
+        pixels++;
+        minX = Math.min(minX, cx);
+        maxX = Math.max(maxX, cx);
+        minY = Math.min(minY, cy);
+        maxY = Math.max(maxY, cy);
+
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = cx + dx;
+            const ny = cy + dy;
+            if (nx < 0 || ny < 0 || nx >= region.width || ny >= region.height) continue;
+
+            const neighbour = ny * region.width + nx;
+            if (!visited[neighbour] && data[(region.y + ny) * width + region.x + nx]) {
+              visited[neighbour] = 1;
+              stack.push(neighbour);
+            }
+          }
+        }
+      }
+
+      if (pixels >= MIN_COMPONENT_PIXELS) {
+        components.push({
+          x: region.x + minX,
+          y: region.y + minY,
+          width: maxX - minX + 1,
+          height: maxY - minY + 1
+        });
+      }
+    }
+  }
+
+  return components.sort((a, b) => a.x - b.x);
+}
+
+// Merge components stacked on top of each other, such as the dot and stem of an i
+function mergeOverlapping(components: BoundingBox[]): BoundingBox[] {
+  return components.reduce<BoundingBox[]>((result, component) => {
+    const previous = result[result.length - 1];
+    if (previous) {
+      const overlap = Math.min(previous.x + previous.width, component.x + component.width) -
+        Math.max(previous.x, component.x);
+      if (overlap >= Math.min(previous.width, component.width) * OVERLAP_MERGE) {
+        result[result.length - 1] = union(previous, component);
+        return result;
+      }
+    }
+    result.push(component);
+    return result;
+  }, []);
+}
+
+// Shrink a box vertically to the ink it contains
+function trimVertically(bitmap: Bitmap, box: BoundingBox): BoundingBox {
+  let top = box.y + box.height;
+  let bottom = box.y;
+
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      if (bitmap.data[y * bitmap.width + x]) {
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y + 1);
+        break;
+      }
+    }
+  }
+
+  return bottom > top ? { ...box, y: top, height: bottom - top } : box;
+}
+
+/**
+ * Split glyphs that are too wide to be one character (joined-up letters) at the
+ * columns with the least ink, using the vertical projection profile
+ */
+function splitWideGlyph(bitmap: Bitmap, box: BoundingBox, lineHeight: number): BoundingBox[] {
+  const expectedWidth = Math.max(lineHeight * 0.6, 1);
+  if (box.width <= lineHeight * MAX_GLYPH_ASPECT) return [box];
+
+  const pieces = Math.round(box.width / expectedWidth);
+  if (pieces < 2) return [box];
+
+  const profile: number[] = [];
+  for (let x = box.x; x < box.x + box.width; x++) {
+    let ink = 0;
+    for (let y = box.y; y < box.y + box.height; y++) ink += bitmap.data[y * bitmap.width + x];
+    profile.push(ink);
+  }
+
+  // Around each evenly spaced cut, move to the column with the least ink
+  const window = Math.floor(expectedWidth / 3);
+  const cuts: number[] = [];
+  for (let i = 1; i < pieces; i++) {
+    const guess = Math.round((box.width * i) / pieces);
+    let best = guess;
+    for (let x = Math.max(1, guess - window); x <= Math.min(box.width - 2, guess + window); x++) {
+      if (profile[x] < profile[best]) best = x;
+    }
+    cuts.push(best);
+  }
+
+  const edges = [0, ...cuts, box.width];
+  return edges.slice(0, -1)
+    .map((start, i) => trimVertically(bitmap, {
+      x: box.x + start,
+      y: box.y,
+      width: edges[i + 1] - start,
+      height: box.height
+    }))
+    .filter(piece => piece.width > 0);
+}
+
+/**
+ * Group the glyphs of a line into words using the gaps between them
+ */
+function groupWords(glyphs: BoundingBox[], lineHeight: number): SegmentedWord[] {
+  const words: SegmentedWord[] = [];
+
+  glyphs.forEach((glyph, i) => {
+    const previous = glyphs[i - 1];
+    const gap = previous ? glyph.x - (previous.x + previous.width) : Infinity;
+
+    if (gap > lineHeight * WORD_GAP || words.length === 0) {
+      words.push({ box: glyph, glyphs: [glyph] });
+    } else {
+      const word = words[words.length - 1];
+      word.glyphs.push(glyph);
+      word.box = union(word.box, glyph);
+    }
+  });
+
+  return words;
+}
+
+/**
+ * Segment a bitmap into lines of words of glyphs, in reading order
+ */
+export function segmentPage(bitmap: Bitmap): SegmentedLine[] {
+  return findLines(bitmap).flatMap(line => {
+    const components = mergeOverlapping(findComponents(bitmap, line));
+    if (components.length === 0) return [];
+
+    const lineHeight = line.height;
+    const glyphs = components.flatMap(component => splitWideGlyph(bitmap, component, lineHeight));
+    const words = groupWords(glyphs, lineHeight);
+
+    return [{
+      box: words.map(word => word.box).reduce(union),
+      words
+    }];
+  });
+}
@@ -0,0 +1,333 @@
+import * as tf from '@tensorflow/tfjs-node';
+import type { StrokePoint } from '@shared/schema';
+import type { RecognitionResult, RecognizedCharacter, RecognizedLine, StrokeModelInfo } from '@shared/ocr';
+import { ctcLoss, greedyDecode, beamSearchDecode } from './ctc';
+import type { BoundingBox } from './segmentation';
+import {
+  BASE_PROFILE,
+  getModel,
+  getTrainableModel,
+  isPersonalProfile,
+  modelExists,
+  saveModel
+} from './modelStore';
+import {
+  SEQUENCE_CHAR_SET,
+  DEFAULT_TOP_K,
+  getModelConfig,
+  checkCancelled,
+  topCandidates,
+  buildLineFromSequence,
+  buildResult,
+  TrainingCallbacks
+} from './ocrModel';
+
+/**
+ * Online handwriting recognition: reads the pen trajectory instead of a
+ * rasterized image. Because the model sees the order and direction of every
+ * stroke, letters that look alike mirrored (b/d, p/q) are written differently.
+ *
+ * Each line of strokes becomes a sequence of pen movements, read by a
+ * bidirectional LSTM and decoded with CTC like the sequence image model.
+ */
+
+const NUM_FEATURES = 4;        // dx, dy, pen lifted after this point, pressure
+const RESAMPLE_SPACING = 0.05; // Distance between points, as a share of the line height
+const MIN_LINE_HEIGHT = 20;    // Pixels; keeps flat lines like a lone dash from being resampled into thousands of points
+const LINE_OVERLAP = 0.5;      // Vertical overlap with a line needed for a stroke to join it
+const BLANK_INDEX = SEQUENCE_CHAR_SET.length;
+
+interface StrokeLine {
+  strokes: StrokePoint[][];
+  box: BoundingBox;
+}
+
+/**
+ * Create the stroke sequence model
+ */
+export async function createStrokeModel(): Promise<tf.LayersModel> {
+  const m = tf.sequential();
+
+  // Input shape: any number of pen movements with NUM_FEATURES each
+  m.add(tf.layers.conv1d({
+    inputShape: [null, NUM_FEATURES],
+    filters: 64,
+    kernelSize: 5,
+    activation: 'relu',
+    padding: 'same'
+  }));
+
+  m.add(tf.layers.bidirectional({
+    layer: tf.layers.lstm({ units: 128, returnSequences: true }) as tf.RNN,
+    mergeMode: 'concat'
+  }));
+
+  m.add(tf.layers.dropout({ rate: 0.25 }));
+
+  // One node per character plus the CTC blank, at every time step
+  m.add(tf.layers.dense({
+    units: SEQUENCE_CHAR_SET.length + 1,
+    activation: 'softmax'
+  }));
+
+  return m;
+}
+
+const strokeModelOptions = { create: createStrokeModel };
+
+/**
+ * Split points into strokes in drawing order, dropping eraser and annotation strokes
+ */
+function splitStrokes(points: StrokePoint[]): StrokePoint[][] {
+  const strokes: StrokePoint[][] = [];
+  let current: StrokePoint[] = [];
+
+  points.forEach((point, index) => {
+    const previous = points[index - 1];
+    if (previous && (point.stroke_id !== previous.stroke_id || !previous.pen_down)) {
+      strokes.push(current);
+      current = [];
+    }
+    current.push(point);
+  });
+  if (current.length > 0) strokes.push(current);
+
+  return strokes.filter(stroke =>
+    stroke.length > 0 && stroke[0].tool !== 'eraser' && stroke[0].layer !== 'annotation'
+  );
+}
+
+function getBounds(points: StrokePoint[]): BoundingBox {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Group strokes into lines of writing: a stroke joins the line it overlaps
+ * most vertically, lines are returned top to bottom
+ */
+function groupLines(strokes: StrokePoint[][]): StrokeLine[] {
+  const lines: StrokeLine[] = [];
+
+  strokes.forEach(stroke => {
+    const box = getBounds(stroke);
+    const line = lines.find(candidate => {
+      const overlap = Math.min(candidate.box.y + candidate.box.height, box.y + box.height) -
+        Math.max(candidate.box.y, box.y);
+      return overlap >= Math.min(candidate.box.height, box.height) * LINE_OVERLAP;
+    });
+
+    if (line) {
+      line.strokes.push(stroke);
+      line.box = getBounds(line.strokes.flat());
+    } else {
+      lines.push({ strokes: [stroke], box });
+    }
+  });
+
+  return lines.sort((a, b) => a.box.y - b.box.y);
+}
+
+/**
+ * Resample a stroke to evenly spaced points so writing speed doesn't matter
+ */
+function resampleStroke(stroke: StrokePoint[], spacing: number): StrokePoint[] {
+  const result: StrokePoint[] = [stroke[0]];
+  let carried = 0;
+
+  for (let i = 1; i < stroke.length; i++) {
+    const a = stroke[i - 1];
+    const b = stroke[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    let distance = spacing - carried;
+
+    while (distance <= length) {
+      const t = distance / length;
+      result.push({
+        ...a,
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        pressure: (a.pressure ?? 0.5) + ((b.pressure ?? 0.5) - (a.pressure ?? 0.5)) * t
+      });
+      distance += spacing;
+    }
+    carried = length - (distance - spacing);
+  }
+
+  return result;
+}
+
+/**
+ * Turn a line of strokes into model features: one row per resampled point with
+ * the movement from the previous point (scaled by the line height), whether the
+ * pen lifts after it and the pen pressure
+ */
+export function strokesToFeatures(strokes: StrokePoint[][], lineHeight: number): number[][] {
+  const height = Math.max(lineHeight, MIN_LINE_HEIGHT);
+  const features: number[][] = [];
+  let previous: StrokePoint | null = null;
+
+  strokes.forEach(stroke => {
+    const points = resampleStroke(stroke, RESAMPLE_SPACING * height);
+    points.forEach((point, index) => {
+      features.push([
+        previous ? (point.x - previous.x) / height : 0,
+        previous ? (point.y - previous.y) / height : 0,
+        index === points.length - 1 ? 1 : 0,
+        point.pressure ?? 0.5
+      ]);
+      previous = point;
+    });
+  });
+
+  return features;
+}
+
+// Which resampled point of the line each feature row came from, for character boxes
+function featurePoints(strokes: StrokePoint[][], lineHeight: number): StrokePoint[] {
+  return strokes.flatMap(stroke => resampleStroke(stroke, RESAMPLE_SPACING * Math.max(lineHeight, MIN_LINE_HEIGHT)));
+}
+
+// Pad feature sequences with "pen up, no movement" rows to a common length
+function padFeatureBatch(sequences: number[][][], minLength = 0): tf.Tensor3D {
+  const length = Math.max(minLength, ...sequences.map(sequence => sequence.length));
+  const padded = sequences.map(sequence => [
+    ...sequence,
+    ...Array.from({ length: length - sequence.length }, () => [0, 0, 1, 0])
+  ]);
+  return tf.tensor3d(padded, [sequences.length, length, NUM_FEATURES]);
+}
+
+/**
+ * Train the stroke model on labeled stroke samples and return the loss per epoch
+ */
+export async function trainStrokeBatch(
+  examples: Array<{ strokes: StrokePoint[]; label: string }>,
+  profile: string = BASE_PROFILE,
+  epochs: number = 10,
+  callbacks: TrainingCallbacks = {}
+): Promise<number[]> {
+  const strokeModel = await getTrainableModel('stroke', profile, strokeModelOptions);
+
+  const encoded = examples.flatMap(example => {
+    const strokes = splitStrokes(example.strokes);
+    const label = Array.from(example.label)
+      .map(char => SEQUENCE_CHAR_SET.indexOf(char))
+      .filter(index => index !== -1);
+    if (strokes.length === 0 || label.length === 0) return [];
+
+    // Samples are labeled as a whole, so they are treated as one line
+    const lineHeight = getBounds(strokes.flat()).height;
+    return [{ features: strokesToFeatures(strokes, lineHeight), label }];
+  });
+
+  if (encoded.length === 0) {
+    throw new Error('No stroke samples with characters from the charset');
+  }
+
+  const optimizer = tf.train.adam(0.001);
+  const batchSize = Math.min(32, encoded.length);
+  const losses: number[] = [];
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    tf.util.shuffle(encoded);
+    let epochLoss = 0;
+
+    for (let start = 0; start < encoded.length; start += batchSize) {
+      const batch = encoded.slice(start, start + batchSize);
+      const minLength = Math.max(...batch.map(ex => ex.label.length * 2 + 1));
+      const xs = padFeatureBatch(batch.map(ex => ex.features), minLength);
+      const m = strokeModel;
+
+      const loss = optimizer.minimize(
+        () => ctcLoss(m.apply(xs, { training: true }) as tf.Tensor3D, batch.map(ex => ex.label), BLANK_INDEX),
+        true
+      );
+
+      epochLoss += (await loss!.data())[0] * batch.length;
+      loss!.dispose();
+      xs.dispose();
+    }
+
+    losses.push(epochLoss / encoded.length);
+    console.log(`Stroke model epoch ${epoch + 1}/${epochs}: loss ${losses[epoch].toFixed(4)}`);
+    callbacks.onEpochEnd?.({ epoch: epoch + 1, epochs, loss: losses[epoch] });
+
+    if (callbacks.isCancelled?.()) break;
+  }
+
+  optimizer.dispose();
+  checkCancelled(callbacks);
+  await saveModel('stroke', profile, strokeModel, {
+    samples: encoded.length,
+    loss: losses[losses.length - 1]
+  });
+
+  return losses;
+}
+
+/**
+ * Recognize handwriting from its strokes, line by line
+ */
+export async function recognizeStrokes(
+  points: StrokePoint[],
+  topK: number = DEFAULT_TOP_K,
+  profile: string = BASE_PROFILE
+): Promise<RecognitionResult> {
+  const strokeModel = await getModel('stroke', profile, strokeModelOptions);
+
+  const recognizedLines: RecognizedLine[] = [];
+
+  for (const line of groupLines(splitStrokes(points))) {
+    // Strokes are read in the order they were written
+    const lineHeight = line.box.height;
+    const features = strokesToFeatures(line.strokes, lineHeight);
+    const positions = featurePoints(line.strokes, lineHeight);
+
+    const input = padFeatureBatch([features]);
+    const prediction = strokeModel.predict(input) as tf.Tensor3D;
+    const probs = (await prediction.array())[0];
+    input.dispose();
+    prediction.dispose();
+
+    const decoded = getModelConfig(profile).decoder === 'beam'
+      ? beamSearchDecode(probs, BLANK_INDEX)
+      : greedyDecode(probs, BLANK_INDEX);
+
+    // A character covers the pen movements from where it was emitted to the next one
+    const characters: RecognizedCharacter[] = decoded.characters.map((c, i) => {
+      const end = decoded.characters[i + 1]?.timestep ?? positions.length;
+      const covered = positions.slice(c.timestep, Math.max(end, c.timestep + 1));
+      return {
+        char: SEQUENCE_CHAR_SET.charAt(c.index),
+        confidence: c.confidence,
+        box: covered.length > 0 ? getBounds(covered) : line.box,
+        candidates: topCandidates(probs[c.timestep], SEQUENCE_CHAR_SET, topK)
+      };
+    });
+
+    const recognized = buildLineFromSequence(characters, line.box, topK);
+    if (recognized) recognizedLines.push(recognized);
+  }
+
+  return buildResult(recognizedLines);
+}
+
+/**
+ * Get stroke model information
+ */
+export async function getStrokeModelInfo(profile: string = BASE_PROFILE): Promise<StrokeModelInfo> {
+  return {
+    exists: modelExists('stroke', profile) || modelExists('stroke', BASE_PROFILE),
+    profile,
+    personalized: isPersonalProfile(profile) && modelExists('stroke', profile),
+    modelType: 'Conv1D + BiLSTM + CTC Stroke Recognition',
+    decoder: getModelConfig(profile).decoder,
+    inputShape: [null, NUM_FEATURES],
+    numClasses: SEQUENCE_CHAR_SET.length,
+    charSet: SEQUENCE_CHAR_SET
+  };
+}
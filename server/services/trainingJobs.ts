@@ -0,0 +1,217 @@
+import { Worker } from 'worker_threads';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import type { StrokePoint } from '@shared/schema';
+import type { EpochProgress, TrainingJob } from '@shared/ocr';
+import type { AugmentationOptions } from './augmentation';
+import { forgetModels } from './modelStore';
+
+/**
+ * Queue of background training jobs. Jobs run one at a time, each in its own
+ * worker thread, and report progress after every epoch.
+ */
+
+const MAX_FINISHED_JOBS = 50; // Finished jobs kept for status requests
+
+export type TrainingJobRequest =
+  | {
+      type: 'images';
+      profile: string;
+      examples: Array<{ imagePath: string; label: string }>;
+      // Held-out images to evaluate the trained model on
+      validation?: Array<{ imagePath: string; label: string }>;
+      augmentation?: AugmentationOptions;
+    }
+  | {
+      type: 'strokes';
+      profile: string;
+      samples: Array<{ strokes: StrokePoint[]; label: string }>;
+    }
+  | {
+      // Evaluates the active image model without training it
+      type: 'evaluation';
+      profile: string;
+      validation: Array<{ imagePath: string; label: string }>;
+    };
+
+export type TrainingJobResult = NonNullable<TrainingJob['result']>;
+
+// Messages from the worker thread
+export type WorkerMessage =
+  | { type: 'progress'; progress: EpochProgress }
+  | { type: 'done'; result: TrainingJobResult }
+  | { type: 'cancelled' }
+  | { type: 'error'; message: string };
+
+interface QueuedJob {
+  job: TrainingJob;
+  request: TrainingJobRequest;
+  cancelFlag: Int32Array;
+}
+
+const jobs = new Map<string, QueuedJob>();
+const queue: QueuedJob[] = [];
+const events = new EventEmitter();
+let running: QueuedJob | null = null;
+
+/**
+ * Start the worker for a job. In production it is bundled next to the server;
+ * in development it is TypeScript, so it is loaded through tsx like the server.
+ */
+function startWorker(workerData: unknown): Worker {
+  if (import.meta.url.endsWith('.ts')) {
+    const url = new URL('./trainingWorker.ts', import.meta.url).href;
+    return new Worker(
+      `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url)}); })`,
+      { eval: true, workerData }
+    );
+  }
+
+  return new Worker(new URL('./trainingWorker.js', import.meta.url), { workerData });
+}
+
+export const isFinished = (job: TrainingJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+function update(entry: QueuedJob, changes: Partial<TrainingJob>) {
+  Object.assign(entry.job, changes);
+  events.emit(entry.job.id, entry.job);
+}
+
+function finish(entry: QueuedJob, changes: Partial<TrainingJob>) {
+  update(entry, { ...changes, finishedAt: new Date().toISOString() });
+  events.removeAllListeners(entry.job.id);
+
+  // Forget the oldest finished jobs
+  const finished = Array.from(jobs.values()).filter(({ job }) => isFinished(job));
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))
+    .forEach(({ job }) => jobs.delete(job.id));
+}
+
+function runNext() {
+  if (running || queue.length === 0) return;
+
+  const entry = queue.shift()!;
+  running = entry;
+  update(entry, { status: 'running', startedAt: new Date().toISOString() });
+
+  const worker = startWorker({ request: entry.request, cancelFlag: entry.cancelFlag.buffer });
+  let settled = false;
+
+  const settle = (changes: Partial<TrainingJob>) => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+
+    // The worker saved new weights, so the cached models are out of date
+    if (entry.request.type !== 'evaluation') {
+      forgetModels(entry.job.profile);
+    }
+    finish(entry, changes);
+    running = null;
+    runNext();
+  };
+
+  worker.on('message', (message: WorkerMessage) => {
+    switch (message.type) {
+      case 'progress':
+        update(entry, { progress: [...entry.job.progress, message.progress] });
+        break;
+      case 'done':
+        settle({ status: 'completed', result: message.result });
+        break;
+      case 'cancelled':
+        settle({ status: 'cancelled' });
+        break;
+      case 'error':
+        settle({ status: 'failed', error: message.message });
+        break;
+    }
+  });
+
+  worker.on('error', error => {
+    console.error(`Training job ${entry.job.id} crashed:`, error);
+    settle({ status: 'failed', error: error.message });
+  });
+
+  worker.on('exit', code => {
+    settle({ status: 'failed', error: `Training worker exited with code ${code}` });
+  });
+}
+
+function sampleCount(request: TrainingJobRequest): number {
+  switch (request.type) {
+    case 'images':
+      return request.examples.length;
+    case 'strokes':
+      return request.samples.length;
+    case 'evaluation':
+      return request.validation.length;
+  }
+}
+
+/**
+ * Queue a training run and return its job
+ */
+export function enqueueTrainingJob(request: TrainingJobRequest): TrainingJob {
+  const job: TrainingJob = {
+    id: uuidv4(),
+    type: request.type,
+    profile: request.profile,
+    status: 'queued',
+    sampleCount: sampleCount(request),
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    progress: [],
+    result: null,
+    error: null
+  };
+
+  const entry: QueuedJob = { job, request, cancelFlag: new Int32Array(new SharedArrayBuffer(4)) };
+  jobs.set(job.id, entry);
+  queue.push(entry);
+  runNext();
+
+  return job;
+}
+
+export function getTrainingJob(id: string): TrainingJob | undefined {
+  return jobs.get(id)?.job;
+}
+
+/**
+ * A profile's jobs, newest first
+ */
+export function listTrainingJobs(profile: string): TrainingJob[] {
+  return Array.from(jobs.values())
+    .map(({ job }) => job)
+    .filter(job => job.profile === profile)
+    .reverse();
+}
+
+/**
+ * Cancel a job. A queued job is dropped right away; a running one stops at the
+ * end of its current epoch without saving.
+ */
+export function cancelTrainingJob(id: string) {
+  const entry = jobs.get(id);
+  if (!entry || isFinished(entry.job)) return;
+
+  if (entry.job.status === 'queued') {
+    queue.splice(queue.indexOf(entry), 1);
+    finish(entry, { status: 'cancelled' });
+  } else {
+    Atomics.store(entry.cancelFlag, 0, 1);
+  }
+}
+
+/**
+ * Listen to a job's updates until it finishes. Returns a function to stop listening.
+ */
+export function subscribeToTrainingJob(id: string, listener: (job: TrainingJob) => void): () => void {
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
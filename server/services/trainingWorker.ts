@@ -0,0 +1,48 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as ocrModel from './ocrModel';
+import * as strokeModel from './strokeModel';
+import { evaluateModel } from './evaluation';
+import { recordValidationAccuracy } from './modelStore';
+import type { TrainingJobRequest, TrainingJobResult, WorkerMessage } from './trainingJobs';
+
+/**
+ * Runs one training or evaluation job off the main thread, so the server keeps
+ * answering requests while the model works. Started by the job queue in trainingJobs.ts.
+ */
+
+const { request, cancelFlag } = workerData as { request: TrainingJobRequest; cancelFlag: SharedArrayBuffer };
+const cancelled = new Int32Array(cancelFlag);
+
+const post = (message: WorkerMessage) => parentPort!.postMessage(message);
+
+const callbacks: ocrModel.TrainingCallbacks = {
+  onEpochEnd: progress => post({ type: 'progress', progress }),
+  isCancelled: () => Atomics.load(cancelled, 0) === 1
+};
+
+async function run(): Promise<TrainingJobResult> {
+  if (request.type === 'strokes') {
+    const losses = await strokeModel.trainStrokeBatch(request.samples, request.profile, undefined, callbacks);
+    return { losses };
+  }
+  if (request.type === 'evaluation') {
+    return { losses: [], evaluation: await evaluateModel(request.validation, request.profile) };
+  }
+
+  const losses = await ocrModel.trainOnImages(request.examples, request.profile, callbacks, request.augmentation);
+  if (!request.validation) {
+    return { losses };
+  }
+
+  const evaluation = await evaluateModel(request.validation, request.profile);
+  recordValidationAccuracy(evaluation.modelType, request.profile, evaluation.accuracy);
+  return { losses, evaluation };
+}
+
+run()
+  .then(result => post({ type: 'done', result }))
+  .catch(error => post(
+    callbacks.isCancelled!()
+      ? { type: 'cancelled' }
+      : { type: 'error', message: (error as Error).message }
+  ));
@@ -1,6 +1,21 @@
-import { users, notes, type User, type InsertUser, type Note, type InsertNote } from "@shared/schema";
+import {
+  users,
+  notes,
+  trainingSamples,
+  type User,
+  type InsertUser,
+  type Note,
+  type InsertNote,
+  type NotePage,
+  type TrainingSample,
+  type InsertTrainingSample,
+} from "@shared/schema";
+import { getNotePages } from "@shared/pages";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import fs from "fs";
+import path from "path";
+import { eq, inArray, asc, sql } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
 
 // Interface for storage operations
 export interface IStorage {
@@ -15,6 +30,34 @@ export interface IStorage {
   createNote(note: InsertNote): Promise<Note>;
   updateNote(id: number, note: Partial<InsertNote>): Promise<Note | undefined>;
   deleteNote(id: number): Promise<boolean>;
+  
+  // Page methods
+  addNotePage(id: number, page: NotePage, index?: number): Promise<Note | undefined>;
+  reorderNotePages(id: number, pageIds: string[]): Promise<Note | undefined>;
+  deleteNotePage(id: number, pageId: string): Promise<Note | undefined>;
+  
+  // Training sample methods
+  getTrainingSamples(profile: string): Promise<TrainingSample[]>;
+  getTrainingSample(id: string): Promise<TrainingSample | undefined>;
+  createTrainingSample(sample: InsertTrainingSample): Promise<TrainingSample>;
+  createTrainingSamples(samples: InsertTrainingSample[]): Promise<TrainingSample[]>;
+  updateTrainingSample(id: string, sample: Partial<InsertTrainingSample>): Promise<TrainingSample | undefined>;
+  deleteTrainingSample(id: string): Promise<boolean>;
+  recordTrainingSampleUse(ids: string[]): Promise<void>;
+}
+
+// Insert a page at the given position (defaults to the end)
+function insertPage(pages: NotePage[], page: NotePage, index: number = pages.length): NotePage[] {
+  const updated = [...pages];
+  updated.splice(Math.min(index, pages.length), 0, page);
+  return updated;
+}
+
+// Order pages by id; ids that don't match a page are ignored
+function orderPages(pages: NotePage[], pageIds: string[]): NotePage[] {
+  return pageIds
+    .map(pageId => pages.find(page => page.id === pageId))
+    .filter((page): page is NotePage => page !== undefined);
 }
 
 // Database implementation
@@ -55,6 +98,9 @@ export class DatabaseStorage implements IStorage {
       content: insertNote.content,
       preview: insertNote.preview || null,
       recognizedText: insertNote.recognizedText || null,
+      strokes: insertNote.strokes || null,
+      history: insertNote.history || null,
+      pages: insertNote.pages || null,
       isFavorite: insertNote.isFavorite || false
     };
     
@@ -95,20 +141,122 @@ export class DatabaseStorage implements IStorage {
     
     return result.length > 0;
   }
+  
+  // Page methods
+  async addNotePage(id: number, page: NotePage, index?: number): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, { pages: insertPage(getNotePages(note), page, index) });
+  }
+  
+  async reorderNotePages(id: number, pageIds: string[]): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, { pages: orderPages(getNotePages(note), pageIds) });
+  }
+  
+  async deleteNotePage(id: number, pageId: string): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, {
+      pages: getNotePages(note).filter(page => page.id !== pageId)
+    });
+  }
+  
+  // Training sample methods
+  async getTrainingSamples(profile: string): Promise<TrainingSample[]> {
+    return await db
+      .select()
+      .from(trainingSamples)
+      .where(eq(trainingSamples.profile, profile))
+      .orderBy(asc(trainingSamples.createdAt));
+  }
+  
+  async getTrainingSample(id: string): Promise<TrainingSample | undefined> {
+    const [sample] = await db.select().from(trainingSamples).where(eq(trainingSamples.id, id));
+    return sample || undefined;
+  }
+  
+  async createTrainingSample(insertSample: InsertTrainingSample): Promise<TrainingSample> {
+    const [sample] = await db
+      .insert(trainingSamples)
+      .values(insertSample)
+      .returning();
+    return sample;
+  }
+  
+  async createTrainingSamples(insertSamples: InsertTrainingSample[]): Promise<TrainingSample[]> {
+    // Inserted in batches to stay under Postgres' limit on query parameters
+    const created: TrainingSample[] = [];
+    for (let i = 0; i < insertSamples.length; i += 1000) {
+      created.push(...await db
+        .insert(trainingSamples)
+        .values(insertSamples.slice(i, i + 1000))
+        .returning());
+    }
+    return created;
+  }
+  
+  async updateTrainingSample(id: string, updatedFields: Partial<InsertTrainingSample>): Promise<TrainingSample | undefined> {
+    const [sample] = await db
+      .update(trainingSamples)
+      .set({ ...updatedFields, updatedAt: new Date() })
+      .where(eq(trainingSamples.id, id))
+      .returning();
+    return sample || undefined;
+  }
+  
+  async deleteTrainingSample(id: string): Promise<boolean> {
+    const result = await db
+      .delete(trainingSamples)
+      .where(eq(trainingSamples.id, id))
+      .returning({ id: trainingSamples.id });
+    
+    return result.length > 0;
+  }
+  
+  async recordTrainingSampleUse(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    
+    await db
+      .update(trainingSamples)
+      .set({
+        timesTrained: sql`${trainingSamples.timesTrained} + 1`,
+        lastTrainedAt: new Date()
+      })
+      .where(inArray(trainingSamples.id, ids));
+  }
 }
 
-// For backward compatibility, also include MemStorage
+// For backward compatibility, also include MemStorage. Given a file, training
+// samples are saved to it so they survive restarts; users and notes are not.
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private notesMap: Map<number, Note>;
+  private trainingSamplesMap: Map<string, TrainingSample>;
   private userCurrentId: number;
   private noteCurrentId: number;
+  private trainingSamplesFile?: string;
+  private trainingSamplesSaved: Promise<void>;
 
-  constructor() {
+  constructor(trainingSamplesFile?: string) {
     this.users = new Map();
     this.notesMap = new Map();
+    this.trainingSamplesMap = new Map();
     this.userCurrentId = 1;
     this.noteCurrentId = 1;
+    this.trainingSamplesFile = trainingSamplesFile;
+    this.trainingSamplesSaved = Promise.resolve();
+    this.loadTrainingSamples();
     
     // Add a few sample notes for testing
     this.createNote({
@@ -170,6 +318,9 @@ export class MemStorage implements IStorage {
       content: insertNote.content, 
       preview: insertNote.preview || null,
       recognizedText: insertNote.recognizedText || null,
+      strokes: insertNote.strokes || null,
+      history: insertNote.history || null,
+      pages: insertNote.pages || null,
       isFavorite: insertNote.isFavorite || false,
       createdAt: now,
       updatedAt: now
@@ -203,7 +354,150 @@ export class MemStorage implements IStorage {
     
     return this.notesMap.delete(id);
   }
+  
+  // Page methods
+  async addNotePage(id: number, page: NotePage, index?: number): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, { pages: insertPage(getNotePages(note), page, index) });
+  }
+  
+  async reorderNotePages(id: number, pageIds: string[]): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, { pages: orderPages(getNotePages(note), pageIds) });
+  }
+  
+  async deleteNotePage(id: number, pageId: string): Promise<Note | undefined> {
+    const note = await this.getNote(id);
+    if (!note) {
+      return undefined;
+    }
+    
+    return this.updateNote(id, {
+      pages: getNotePages(note).filter(page => page.id !== pageId)
+    });
+  }
+  
+  // Training sample persistence
+  private loadTrainingSamples() {
+    if (!this.trainingSamplesFile || !fs.existsSync(this.trainingSamplesFile)) {
+      return;
+    }
+
+    try {
+      const samples: TrainingSample[] = JSON.parse(fs.readFileSync(this.trainingSamplesFile, "utf8"));
+      for (const sample of samples) {
+        this.trainingSamplesMap.set(sample.id, {
+          ...sample,
+          lastTrainedAt: sample.lastTrainedAt && new Date(sample.lastTrainedAt),
+          createdAt: sample.createdAt && new Date(sample.createdAt),
+          updatedAt: sample.updatedAt && new Date(sample.updatedAt)
+        });
+      }
+    } catch (error) {
+      console.error("Error loading training samples:", error);
+    }
+  }
+
+  // Saves run one after another, each writing a temporary file and renaming it
+  // over the old one so a crash mid-write leaves the previous save intact
+  private saveTrainingSamples(): Promise<void> {
+    const file = this.trainingSamplesFile;
+    if (!file) {
+      return Promise.resolve();
+    }
+
+    this.trainingSamplesSaved = this.trainingSamplesSaved
+      .catch(() => undefined)
+      .then(async () => {
+        const data = JSON.stringify(Array.from(this.trainingSamplesMap.values()));
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(`${file}.tmp`, data);
+        await fs.promises.rename(`${file}.tmp`, file);
+      });
+    return this.trainingSamplesSaved;
+  }
+
+  // Training sample methods
+  async getTrainingSamples(profile: string): Promise<TrainingSample[]> {
+    return Array.from(this.trainingSamplesMap.values()).filter(sample => sample.profile === profile);
+  }
+  
+  async getTrainingSample(id: string): Promise<TrainingSample | undefined> {
+    return this.trainingSamplesMap.get(id);
+  }
+  
+  async createTrainingSample(insertSample: InsertTrainingSample): Promise<TrainingSample> {
+    const [sample] = await this.createTrainingSamples([insertSample]);
+    return sample;
+  }
+  
+  async createTrainingSamples(insertSamples: InsertTrainingSample[]): Promise<TrainingSample[]> {
+    const now = new Date();
+    const samples = insertSamples.map((insertSample): TrainingSample => ({
+      id: insertSample.id || uuidv4(),
+      label: insertSample.label,
+      profile: insertSample.profile,
+      source: insertSample.source,
+      status: insertSample.status || 'accepted',
+      recognizedAs: insertSample.recognizedAs || null,
+      imageFilename: insertSample.imageFilename || null,
+      strokes: insertSample.strokes || null,
+      timesTrained: 0,
+      lastTrainedAt: null,
+      createdAt: now,
+      updatedAt: now
+    }));
+    
+    samples.forEach(sample => this.trainingSamplesMap.set(sample.id, sample));
+    await this.saveTrainingSamples();
+    return samples;
+  }
+  
+  async updateTrainingSample(id: string, updatedFields: Partial<InsertTrainingSample>): Promise<TrainingSample | undefined> {
+    const existingSample = this.trainingSamplesMap.get(id);
+    if (!existingSample) {
+      return undefined;
+    }
+    
+    const updatedSample: TrainingSample = {
+      ...existingSample,
+      ...updatedFields,
+      updatedAt: new Date()
+    };
+    
+    this.trainingSamplesMap.set(id, updatedSample);
+    await this.saveTrainingSamples();
+    return updatedSample;
+  }
+  
+  async deleteTrainingSample(id: string): Promise<boolean> {
+    const deleted = this.trainingSamplesMap.delete(id);
+    if (deleted) {
+      await this.saveTrainingSamples();
+    }
+    return deleted;
+  }
+  
+  async recordTrainingSampleUse(ids: string[]): Promise<void> {
+    const now = new Date();
+    for (const id of ids) {
+      const sample = this.trainingSamplesMap.get(id);
+      if (sample) {
+        this.trainingSamplesMap.set(id, { ...sample, timesTrained: sample.timesTrained + 1, lastTrainedAt: now });
+      }
+    }
+    await this.saveTrainingSamples();
+  }
 }
 
-// Use MemStorage instead of DatabaseStorage for now
-export const storage = new MemStorage();
+// Use MemStorage instead of DatabaseStorage for now, keeping training samples
+// next to their images
+export const storage = new MemStorage(path.join(process.cwd(), "uploads/training/samples.json"));
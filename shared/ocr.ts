@@ -0,0 +1,451 @@
+import { z } from "zod";
+import { strokePointSchema } from "./schema";
+
+// The OCR API contract shared by the Express router and the React client:
+// route paths, request schemas the server validates and response schemas the
+// client parses.
+
+// Header naming the profile whose personal OCR models a request should use.
+// Requests without it use the shared base models.
+export const OCR_PROFILE_HEADER = "X-OCR-Profile";
+
+// Where the OCR router is mounted; the paths below are relative to it
+export const OCR_API_PREFIX = "/api/ocr";
+
+export const ocrPaths = {
+  initialize: "/initialize",
+  modelInfo: "/model-info",
+  trainingImages: "/training-images",
+  uploadTrainingImage: "/training-image",
+  trainingImage: "/training-image/:id",
+  reviewTrainingImage: "/training-image/:id/review",
+  train: "/train",
+  trainBatch: "/train-batch",
+  trainStrokes: "/train-strokes",
+  evaluate: "/evaluate",
+  recognize: "/recognize",
+  recognizeStrokes: "/recognize-strokes",
+  jobs: "/jobs",
+  job: "/jobs/:id",
+  jobEvents: "/jobs/:id/events",
+  cancelJob: "/jobs/:id/cancel",
+  versions: "/versions",
+  compareVersions: "/versions/compare",
+  activateVersion: "/versions/:id/activate",
+  version: "/versions/:id",
+  exportDataset: "/dataset/export",
+  importDataset: "/dataset/import",
+  calibration: "/calibration",
+} as const;
+
+export type OcrPath = (typeof ocrPaths)[keyof typeof ocrPaths];
+
+// Full URL of an OCR API path, with its :id filled in
+export function ocrUrl(path: OcrPath, id?: string): string {
+  return OCR_API_PREFIX + (id === undefined ? path : path.replace(":id", encodeURIComponent(id)));
+}
+
+// Requests
+
+export const DEFAULT_TOP_K = 5; // Alternatives returned per character and word
+
+export const topKSchema = z.coerce.number().int().min(1).max(20).default(DEFAULT_TOP_K);
+
+// 'character' classifies segmented glyphs one by one, 'sequence' reads whole lines
+export const modelTypeSchema = z.enum(["character", "sequence"]);
+export const decoderSchema = z.enum(["greedy", "beam"]);
+
+export type ModelType = z.infer<typeof modelTypeSchema>;
+export type DecoderType = z.infer<typeof decoderSchema>;
+
+export const initializeModelRequestSchema = z.object({
+  modelType: modelTypeSchema.optional(),
+  decoder: decoderSchema.optional(),
+}).default({});
+
+// Random distortions applied to training images; missing fields use the defaults
+export const augmentationOptionsSchema = z.object({
+  enabled: z.boolean().default(true),
+  copies: z.number().int().min(0).max(20).default(4),           // Distorted copies of each sample per epoch, besides the original
+  rotation: z.number().min(0).max(45).default(10),              // Max rotation either way, in degrees
+  slant: z.number().min(0).max(1).default(0.3),                 // Max horizontal shear either way (tan of the slant angle)
+  translation: z.number().min(0).max(0.5).default(0.1),         // Max shift either way, as a share of the image's shorter side
+  elastic: z.number().min(0).max(5).default(1.5),               // Max elastic displacement in pixels, 0 for none
+  strokeWidth: z.number().int().min(0).max(3).default(1),       // Max pixels of ink added to or removed from each stroke
+  noise: z.number().min(0).max(0.5).default(0.05),              // Standard deviation of the added pixel noise
+});
+
+export type AugmentationOptions = z.infer<typeof augmentationOptionsSchema>;
+
+export const DEFAULT_AUGMENTATION: AugmentationOptions = augmentationOptionsSchema.parse({});
+
+// 'correction' samples are words whose recognized text the user fixed
+export const trainingSampleSourceSchema = z.enum(["drawn", "uploaded", "correction"]);
+
+// Corrections are pending until reviewed; only accepted samples are trained on
+export const trainingSampleStatusSchema = z.enum(["pending", "accepted"]);
+
+// Multipart fields can only be strings, so stroke data arrives as JSON text
+const jsonField = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Multipart fields sent with an uploaded training image
+export const uploadTrainingImageRequestSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  source: trainingSampleSourceSchema.default("uploaded"),
+  strokes: z.preprocess(jsonField, z.array(strokePointSchema)).optional(), // Strokes of a drawn sample
+  recognizedAs: z.string().optional(),   // What the recognizer read, for corrections
+});
+
+// Query of the training image list
+export const trainingImagesRequestSchema = z.object({
+  status: trainingSampleStatusSchema.optional(),   // All samples when missing
+});
+
+// Accept a pending sample, optionally fixing its label, or reject and delete it
+export const reviewTrainingImageRequestSchema = z.object({
+  accept: z.boolean(),
+  label: z.string().min(1, "Label is required").optional(),
+});
+
+export const trainImageRequestSchema = z.object({
+  imageId: z.string().min(1, "Image ID is required"),
+  label: z.string().min(1, "Label is required"),
+  augmentation: augmentationOptionsSchema.default({}),
+});
+
+export const trainBatchRequestSchema = z.object({
+  augmentation: augmentationOptionsSchema.default({}),
+}).default({});
+
+export const recognizeCanvasRequestSchema = z.object({
+  canvasData: z.string().regex(/^data:image\/\w+;base64,/, "Canvas data must be an image data URL"),
+  topK: topKSchema,
+});
+
+export const recognizeStrokesRequestSchema = z.object({
+  strokes: z.array(strokePointSchema).min(1, "At least one stroke point is required"),
+  topK: topKSchema,
+});
+
+export const trainStrokesRequestSchema = recognizeStrokesRequestSchema.omit({ topK: true }).extend({
+  label: z.string().min(1, "Label is required"),
+});
+
+// Query of a training set export; stroke data can be left out to keep it small
+export const exportDatasetRequestSchema = z.object({
+  strokes: z.enum(["true", "false"]).default("true").transform(value => value === "true"),
+});
+
+// Layouts a training set archive can have: 'native' is what exports write,
+// 'folders' has a folder of images per label, 'csv' a manifest of image paths
+// and labels, 'idx' EMNIST/MNIST idx files
+export const datasetFormatSchema = z.enum(["native", "folders", "csv", "idx"]);
+
+export const MAX_IMPORT_SAMPLES = 50000;
+
+// Multipart fields sent with an imported training set archive
+export const importDatasetRequestSchema = z.object({
+  format: z.union([datasetFormatSchema, z.literal("auto")]).default("auto"),
+  limit: z.coerce.number().int().min(1).max(MAX_IMPORT_SAMPLES).default(10000),   // Samples to import at most
+  transpose: z.enum(["true", "false"]).transform(value => value === "true").optional(), // Transpose idx images; EMNIST's are by default
+});
+
+export type DatasetFormat = z.infer<typeof datasetFormatSchema>;
+
+export const DEFAULT_CALIBRATION_REPETITIONS = 3;
+
+// Query of the calibration plan: how many samples of each prompt to aim for
+export const calibrationRequestSchema = z.object({
+  repetitions: z.coerce.number().int().min(1).max(10).default(DEFAULT_CALIBRATION_REPETITIONS),
+});
+
+export type InitializeModelRequest = z.input<typeof initializeModelRequestSchema>;
+export type TrainImageRequest = z.input<typeof trainImageRequestSchema>;
+export type TrainBatchRequest = z.input<typeof trainBatchRequestSchema>;
+export type RecognizeCanvasRequest = z.input<typeof recognizeCanvasRequestSchema>;
+export type RecognizeStrokesRequest = z.input<typeof recognizeStrokesRequestSchema>;
+export type TrainStrokesRequest = z.input<typeof trainStrokesRequestSchema>;
+export type TrainingImagesRequest = z.input<typeof trainingImagesRequestSchema>;
+export type ReviewTrainingImageRequest = z.input<typeof reviewTrainingImageRequestSchema>;
+export type ExportDatasetRequest = z.input<typeof exportDatasetRequestSchema>;
+export type ImportDatasetRequest = z.input<typeof importDatasetRequestSchema>;
+export type CalibrationRequest = z.input<typeof calibrationRequestSchema>;
+
+// Responses
+
+// Every successful response; errors have success false and a message
+export const messageResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string().optional(),
+});
+
+export const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+// An alternative reading of a character or word
+export const candidateSchema = z.object({
+  text: z.string(),
+  probability: z.number(),
+});
+
+export const recognizedCharacterSchema = z.object({
+  char: z.string(),
+  confidence: z.number(),
+  box: boundingBoxSchema,
+  candidates: z.array(candidateSchema),
+});
+
+export const recognizedWordSchema = z.object({
+  text: z.string(),
+  confidence: z.number(),
+  box: boundingBoxSchema,
+  characters: z.array(recognizedCharacterSchema),
+  candidates: z.array(candidateSchema),
+});
+
+export const recognizedLineSchema = z.object({
+  text: z.string(),
+  confidence: z.number(),
+  box: boundingBoxSchema,
+  words: z.array(recognizedWordSchema),
+});
+
+export const recognitionResultSchema = z.object({
+  text: z.string(),
+  confidence: z.number(),
+  lines: z.array(recognizedLineSchema),
+});
+
+export const recognitionResponseSchema = messageResponseSchema.merge(recognitionResultSchema);
+
+export type Candidate = z.infer<typeof candidateSchema>;
+export type RecognizedCharacter = z.infer<typeof recognizedCharacterSchema>;
+export type RecognizedWord = z.infer<typeof recognizedWordSchema>;
+export type RecognizedLine = z.infer<typeof recognizedLineSchema>;
+export type RecognitionResult = z.infer<typeof recognitionResultSchema>;
+export type RecognitionResponse = z.infer<typeof recognitionResponseSchema>;
+
+// Model shapes have null for dimensions that vary, like the width of a line
+const shapeSchema = z.array(z.number().nullable());
+
+export const modelInfoSchema = z.object({
+  exists: z.boolean(),
+  profile: z.string(),
+  personalized: z.boolean(),   // Trained on the profile's own handwriting yet
+  type: modelTypeSchema,
+  modelType: z.string(),       // Description of the architecture
+  decoder: decoderSchema.optional(),
+  inputShape: shapeSchema,
+  outputShape: shapeSchema,
+  numClasses: z.number(),
+  charSet: z.string(),
+});
+
+export const strokeModelInfoSchema = z.object({
+  exists: z.boolean(),
+  profile: z.string(),
+  personalized: z.boolean(),
+  modelType: z.string(),
+  decoder: decoderSchema,
+  inputShape: shapeSchema,
+  numClasses: z.number(),
+  charSet: z.string(),
+});
+
+export const modelInfoResponseSchema = messageResponseSchema.extend({
+  modelInfo: modelInfoSchema,
+  strokeModelInfo: strokeModelInfoSchema,
+});
+
+export const initializeModelResponseSchema = messageResponseSchema.extend({
+  modelInfo: modelInfoSchema,
+});
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+export type StrokeModelInfo = z.infer<typeof strokeModelInfoSchema>;
+export type ModelInfoResponse = z.infer<typeof modelInfoResponseSchema>;
+export type InitializeModelResponse = z.infer<typeof initializeModelResponseSchema>;
+
+// A training sample that has an image, as the API shows it
+export const trainingImageSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  profile: z.string(),
+  source: trainingSampleSourceSchema,
+  status: trainingSampleStatusSchema,
+  recognizedAs: z.string().nullable(),    // What the recognizer read, for corrections
+  path: z.string(),                       // URL the image is served from
+  strokeCount: z.number(),                // Stroke points recorded with a drawn sample
+  timesTrained: z.number(),               // Finished training runs that used the sample
+  lastTrainedAt: z.string().nullable(),
+  createdAt: z.string().nullable(),
+});
+
+export const trainingImagesResponseSchema = messageResponseSchema.extend({
+  trainingImages: z.array(trainingImageSchema),
+});
+
+export const uploadTrainingImageResponseSchema = messageResponseSchema.extend({
+  image: trainingImageSchema,
+});
+
+// The reviewed sample, or null when it was rejected
+export const reviewTrainingImageResponseSchema = messageResponseSchema.extend({
+  image: trainingImageSchema.nullable(),
+});
+
+export type TrainingSampleSource = z.infer<typeof trainingSampleSourceSchema>;
+export type TrainingSampleStatus = z.infer<typeof trainingSampleStatusSchema>;
+export type TrainingImage = z.infer<typeof trainingImageSchema>;
+export type TrainingImagesResponse = z.infer<typeof trainingImagesResponseSchema>;
+export type UploadTrainingImageResponse = z.infer<typeof uploadTrainingImageResponseSchema>;
+export type ReviewTrainingImageResponse = z.infer<typeof reviewTrainingImageResponseSchema>;
+
+export const importDatasetResponseSchema = messageResponseSchema.extend({
+  format: datasetFormatSchema,   // The layout the archive was read as
+  imported: z.number(),
+  skipped: z.number(),           // Entries without a readable image or label
+});
+
+export type ImportDatasetResponse = z.infer<typeof importDatasetResponseSchema>;
+
+// A character or word the calibration session asks the user to write
+export const calibrationPromptSchema = z.object({
+  text: z.string(),
+  confusableWith: z.array(z.string()),   // Letters or words it is often mixed up with
+  captured: z.number(),                  // Samples labelled with it so far
+});
+
+export const characterCoverageSchema = z.object({
+  char: z.string(),
+  samples: z.number(),   // Samples whose label contains the character
+});
+
+export const calibrationResponseSchema = messageResponseSchema.extend({
+  repetitions: z.number(),
+  prompts: z.array(calibrationPromptSchema),      // Confusable letters and words first
+  characters: z.array(characterCoverageSchema),   // Every character the models read
+  remaining: z.number(),                          // Captures left to reach the repetitions of every prompt
+});
+
+export type CalibrationPrompt = z.infer<typeof calibrationPromptSchema>;
+export type CharacterCoverage = z.infer<typeof characterCoverageSchema>;
+export type CalibrationResponse = z.infer<typeof calibrationResponseSchema>;
+
+export const classAccuracySchema = z.object({
+  char: z.string(),
+  total: z.number(),
+  correct: z.number(),
+  accuracy: z.number(),
+});
+
+export const confusionSchema = z.object({
+  expected: z.string(),
+  predicted: z.string(),   // Empty when the character was missed
+  count: z.number(),
+});
+
+export const confusablePairSchema = z.object({
+  pair: z.tuple([z.string(), z.string()]),
+  total: z.tuple([z.number(), z.number()]),     // Validation occurrences of each letter
+  swapped: z.tuple([z.number(), z.number()]),   // First read as second, second read as first
+});
+
+export const evaluationSchema = z.object({
+  modelType: modelTypeSchema,
+  validationCount: z.number(),
+  accuracy: z.number().nullable(),            // Share of labels read exactly right
+  characterAccuracy: z.number().nullable(),   // Share of label characters read right
+  perClass: z.array(classAccuracySchema),
+  confusion: z.array(confusionSchema),        // Expected/predicted pairs, mistakes first
+  confusablePairs: z.array(confusablePairSchema),
+});
+
+export type ClassAccuracy = z.infer<typeof classAccuracySchema>;
+export type Confusion = z.infer<typeof confusionSchema>;
+export type ConfusablePair = z.infer<typeof confusablePairSchema>;
+export type Evaluation = z.infer<typeof evaluationSchema>;
+
+export const epochProgressSchema = z.object({
+  epoch: z.number(),   // 1-based
+  epochs: z.number(),
+  loss: z.number(),
+  accuracy: z.number().optional(),
+});
+
+export const trainingJobStatusSchema = z.enum(["queued", "running", "completed", "failed", "cancelled"]);
+
+export const trainingJobSchema = z.object({
+  id: z.string(),
+  type: z.enum(["images", "strokes", "evaluation"]),
+  profile: z.string(),
+  status: trainingJobStatusSchema,
+  sampleCount: z.number(),
+  createdAt: z.string(),
+  startedAt: z.string().nullable(),
+  finishedAt: z.string().nullable(),
+  progress: z.array(epochProgressSchema),   // One entry per finished epoch
+  result: z.object({
+    losses: z.array(z.number()),
+    evaluation: evaluationSchema.optional(),
+  }).nullable(),
+  error: z.string().nullable(),
+});
+
+// Train endpoints start a background job and answer with it
+export const trainingJobResponseSchema = messageResponseSchema.extend({
+  job: trainingJobSchema,
+  sampleId: z.string().optional(),   // Stroke sample stored by /train-strokes
+});
+
+export const trainingJobsResponseSchema = messageResponseSchema.extend({
+  jobs: z.array(trainingJobSchema),
+});
+
+export type EpochProgress = z.infer<typeof epochProgressSchema>;
+export type TrainingJobStatus = z.infer<typeof trainingJobStatusSchema>;
+export type TrainingJob = z.infer<typeof trainingJobSchema>;
+export type TrainingJobResponse = z.infer<typeof trainingJobResponseSchema>;
+export type TrainingJobsResponse = z.infer<typeof trainingJobsResponseSchema>;
+
+export const modelVersionSchema = z.object({
+  id: z.string(),
+  number: z.number(),                          // Counts up per model, for display
+  kind: z.enum(["character", "sequence", "stroke"]),
+  createdAt: z.string(),
+  samples: z.number(),                         // Examples in the training run that produced it, 0 for a new model
+  accuracy: z.number().nullable(),             // Final training accuracy, if the model reports one
+  loss: z.number().nullable(),                 // Final training loss
+  validationAccuracy: z.number().nullable(),   // Accuracy on held-out images, once evaluated
+  parentId: z.string().nullable(),             // Version that was active when it was trained
+  active: z.boolean(),
+});
+
+export const modelVersionsResponseSchema = messageResponseSchema.extend({
+  versions: z.array(modelVersionSchema),
+});
+
+// Changes going from version a to version b
+export const versionComparisonResponseSchema = messageResponseSchema.extend({
+  a: modelVersionSchema,
+  b: modelVersionSchema,
+  accuracyChange: z.number().nullable(),
+  validationAccuracyChange: z.number().nullable(),
+  lossChange: z.number().nullable(),
+  samplesChange: z.number(),
+});
+
+export type ModelVersion = z.infer<typeof modelVersionSchema>;
+export type ModelVersionsResponse = z.infer<typeof modelVersionsResponseSchema>;
+export type VersionComparison = z.infer<typeof versionComparisonResponseSchema>;
@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Note, NotePage } from "./schema";
+
+export function createNotePage(page: Partial<NotePage> = {}): NotePage {
+  return {
+    id: page.id || uuidv4(),
+    strokes: page.strokes || [],
+    objects: page.objects || [],
+    history: page.history || null,
+    preview: page.preview || null,
+    recognizedText: page.recognizedText || null,
+  };
+}
+
+// Notes saved before pages existed are treated as a single page with a stable id
+export const LEGACY_PAGE_ID = "page-1";
+
+export function getNotePages(
+  note: Pick<Note, "pages" | "strokes" | "history" | "preview" | "recognizedText">,
+): NotePage[] {
+  if (note.pages && note.pages.length > 0) {
+    return note.pages;
+  }
+
+  return [
+    createNotePage({
+      id: LEGACY_PAGE_ID,
+      strokes: note.strokes || [],
+      history: note.history,
+      preview: note.preview,
+      recognizedText: note.recognizedText,
+    }),
+  ];
+}
+
+// Join the recognized text of every page, e.g. for search and note cards
+export function getPagesText(pages: NotePage[]): string {
+  return pages
+    .map((page) => page.recognizedText || "")
+    .filter((text) => text.trim().length > 0)
+    .join("\n\n");
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -8,32 +9,190 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// A single sampled point of a handwritten stroke, as captured by the canvas.
+// Points sharing a stroke_id belong to the same stroke; the style fields are
+// repeated on every point so a stroke can be re-rendered on its own.
+export const strokePointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  time: z.number(),
+  pen_down: z.boolean(),
+  pressure: z.number().optional(),
+  stroke_id: z.string().optional(),
+  color: z.string().optional(),
+  size: z.number().optional(),
+  tool: z.enum(["pen", "stylus", "eraser"]).optional(),
+  layer: z.enum(["ink", "annotation"]).optional(), // Missing means ink
+});
+
+export type StrokePoint = z.infer<typeof strokePointSchema>;
+
+// A vector shape placed with the Shapes tool. Lines and arrows run from
+// (x, y) to (x + width, y + height), so width and height may be negative.
+export const shapeObjectSchema = z.object({
+  id: z.string(),
+  kind: z.literal("shape"),
+  shape: z.enum(["line", "arrow", "rectangle", "ellipse", "star", "speech-bubble"]),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  strokeColor: z.string(),
+  strokeWidth: z.number(),
+  fillColor: z.string().nullable().optional(),
+});
+
+// A typed text box placed with the Text tool, rendered in the dyslexia-friendly
+// font. `width` and `height` are measured from the text when it is committed.
+export const textObjectSchema = z.object({
+  id: z.string(),
+  kind: z.literal("text"),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  text: z.string(),
+  color: z.string(),
+  fontSize: z.number(),
+  letterSpacing: z.number(), // Extra pixels between characters
+  lineHeight: z.number(), // Multiple of the font size
+});
+
+// Editable objects drawn on top of the ink, stored as vectors rather than pixels
+export const canvasObjectSchema = z.discriminatedUnion("kind", [shapeObjectSchema, textObjectSchema]);
+
+export type ShapeObject = z.infer<typeof shapeObjectSchema>;
+export type TextObject = z.infer<typeof textObjectSchema>;
+export type CanvasObject = z.infer<typeof canvasObjectSchema>;
+
+// An undoable canvas operation, expressed as the stroke points and objects it
+// removes and adds
+export const historyCommandSchema = z.object({
+  type: z.enum([
+    "add-stroke",
+    "erase-stroke",
+    "clear",
+    "shape-correct",
+    "add-object",
+    "update-object",
+    "delete-object",
+    "transform-strokes",
+    "recolor-strokes",
+    "duplicate-strokes",
+    "delete-strokes",
+  ]),
+  removed: z.array(strokePointSchema),
+  added: z.array(strokePointSchema),
+  removedObjects: z.array(canvasObjectSchema).optional(),
+  addedObjects: z.array(canvasObjectSchema).optional(),
+});
+
+// Command-based drawing history. `base` and `baseObjects` hold content folded in
+// from commands dropped off the front of the list; `index` is the number of
+// applied commands.
+export const strokeHistorySchema = z.object({
+  base: z.array(strokePointSchema),
+  baseObjects: z.array(canvasObjectSchema).optional(),
+  commands: z.array(historyCommandSchema),
+  index: z.number().int().min(0),
+});
+
+export type HistoryCommand = z.infer<typeof historyCommandSchema>;
+export type StrokeHistory = z.infer<typeof strokeHistorySchema>;
+
+// A single page of a multi-page note
+export const notePageSchema = z.object({
+  id: z.string(),
+  strokes: z.array(strokePointSchema),
+  objects: z.array(canvasObjectSchema).optional(),
+  history: strokeHistorySchema.nullable().optional(),
+  preview: z.string().nullable().optional(), // Base64 encoded page thumbnail
+  recognizedText: z.string().nullable().optional(),
+});
+
+export type NotePage = z.infer<typeof notePageSchema>;
+
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content").notNull(), // Base64 encoded canvas content
   preview: text("preview"), // Base64 encoded preview image
   recognizedText: text("recognized_text"), // Text recognized from handwriting
+  strokes: jsonb("strokes").$type<StrokePoint[]>(), // Vector stroke data for re-rendering
+  history: jsonb("history").$type<StrokeHistory>(), // Undo/redo history for the strokes
+  pages: jsonb("pages").$type<NotePage[]>(), // Pages of a multi-page note
   isFavorite: boolean("is_favorite").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A labelled handwriting sample the OCR models are trained on. Uploaded samples
+// have an image; drawn samples have their strokes and usually an image of them.
+// Corrections are words cut from notes whose recognized text the user fixed;
+// they wait for review before they are trained on.
+export const trainingSamples = pgTable("training_samples", {
+  id: text("id").primaryKey().$defaultFn(() => uuidv4()),
+  label: text("label").notNull(),
+  profile: text("profile").notNull(), // OCR profile that owns the sample
+  source: text("source", { enum: ["drawn", "uploaded", "correction"] }).notNull(),
+  status: text("status", { enum: ["pending", "accepted"] }).notNull().default("accepted"), // Only accepted samples are trained on
+  recognizedAs: text("recognized_as"), // What the recognizer read, for corrections
+  imageFilename: text("image_filename"), // File in uploads/training, null for stroke-only samples
+  strokes: jsonb("strokes").$type<StrokePoint[]>(), // Stroke data of drawn samples
+  timesTrained: integer("times_trained").notNull().default(0), // Finished training runs that used the sample
+  lastTrainedAt: timestamp("last_trained_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
-export const insertNoteSchema = createInsertSchema(notes).pick({
+export const insertNoteSchema = createInsertSchema(notes, {
+  strokes: z.array(strokePointSchema).nullable().optional(),
+  history: strokeHistorySchema.nullable().optional(),
+  pages: z.array(notePageSchema).nullable().optional(),
+}).pick({
   title: true,
   content: true,
   preview: true,
   recognizedText: true,
+  strokes: true,
+  history: true,
+  pages: true,
   isFavorite: true,
 });
 
+export const insertTrainingSampleSchema = createInsertSchema(trainingSamples, {
+  label: z.string().min(1, "Label is required"),
+  strokes: z.array(strokePointSchema).nullable().optional(),
+}).pick({
+  id: true,
+  label: true,
+  profile: true,
+  source: true,
+  status: true,
+  recognizedAs: true,
+  imageFilename: true,
+  strokes: true,
+});
+
+export const addNotePageSchema = z.object({
+  page: notePageSchema.partial().optional(),
+  index: z.number().int().min(0).optional(),
+});
+
+export const reorderNotePagesSchema = z.object({
+  pageIds: z.array(z.string()),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
+
+export type InsertTrainingSample = z.infer<typeof insertTrainingSampleSchema>;
+export type TrainingSample = typeof trainingSamples.$inferSelect;